@@ -0,0 +1,211 @@
+// Mock Countroll API for offline development and reproducing edge cases.
+//
+// Usage:
+//   npm run mock-api                      # listens on :8090
+//   API_PROXY_TARGET=http://localhost:8090 VITE_AUTH_BYPASS=true npm run dev
+//
+// Serves the endpoints the app calls from JSON fixtures in
+// scripts/fixtures/. Any Bearer token is accepted (the auth bypass mode in
+// src/api/auth-code.ts sends a fake one); a missing token gets a 401 like
+// the real API.
+//
+// Fixtures: scripts/fixtures/assets/<id>.json holds
+//   { "asset": {...}, "pictures": {...} | null, "documents": { "<eventId>": [...] } }
+// where "pictures": null makes the pictures endpoint 404. Third parties
+// live in scripts/fixtures/third-parties.json. Asset ids "huge-<n>" are
+// generated on the fly with n events, for performance work on long
+// histories. Unknown ids 404.
+//
+// /api/bff/* and /api/stats/* are not implemented: the client falls back to
+// per-resource calls and hides the Stats link, as it does behind Vite.
+// /api/audit/me always grants access, so hidden events can be shown.
+
+import express from 'express';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const PORT = process.env.MOCK_API_PORT || 8090;
+// Artificial latency per request, to see loading states (MOCK_API_DELAY_MS=800)
+const DELAY_MS = Number(process.env.MOCK_API_DELAY_MS || 0);
+
+async function readJson(file) {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// Synthetic roller: a recover every ~2 years with regrinds in between,
+// pictures and position links sprinkled through. Deterministic per count.
+function generateHugeFixture(id, count) {
+  const events = [];
+  const start = Date.UTC(1990, 0, 1);
+  const stepMs = Math.max(1, Math.floor((Date.now() - start) / count));
+  let diameter = 300;
+  for (let i = 0; i < count; i++) {
+    const at = new Date(start + i * stepMs).toISOString();
+    const kind = i % 12 === 0 ? 'RECOVERED' : i % 5 === 0 ? 'PICTURE' : i % 7 === 0 ? 'LINKED' : 'REGRINDED';
+    if (kind === 'RECOVERED') diameter = 300;
+    if (kind === 'REGRINDED') diameter -= 0.5;
+    events.push({
+      id: `${id}-e${i}`,
+      idx: i,
+      type: kind,
+      state: 'VISIBLE',
+      creationType: 'MANUAL',
+      creationDateTime: at,
+      lastUpdatedDateTime: at,
+      createdByUserId: 'mock-user',
+      lastUpdatedByUserId: 'mock-user',
+      createdByThirdPartyId: '2',
+      who: `operator${i % 4}`,
+      ...(kind === 'RECOVERED' || kind === 'REGRINDED'
+        ? { diameter, reference: `WO-${100000 + Math.floor(i / 3)}` }
+        : {}),
+      ...(kind === 'RECOVERED' ? { coverMaterial: ['NBR', 'EPDM', 'PU'][i % 3], coverHardness: '70 ShA' } : {}),
+      ...(kind === 'LINKED' ? { assetPositionId: `pos-${i % 3}`, title: `Position ${i % 3}` } : {}),
+    });
+  }
+  return {
+    asset: {
+      id,
+      type: 'ROLLER',
+      preferredLabel: `Huge history (${count} events)`,
+      description: 'Generated by scripts/mock-api.js',
+      status: 'ACTIVE',
+      creationDateTime: events[0]?.creationDateTime ?? new Date(start).toISOString(),
+      lastUpdatedDateTime: new Date().toISOString(),
+      diameterCore: 250,
+      nominalCoverDiameter: 300,
+      events,
+    },
+    pictures: { pictureEvents: [] },
+    documents: {},
+  };
+}
+
+async function loadAsset(id) {
+  const huge = /^huge-(\d+)$/.exec(id);
+  if (huge) return generateHugeFixture(id, Math.min(Number(huge[1]), 50_000));
+  if (!/^[\w-]+$/.test(id)) return null;
+  return readJson(path.join(FIXTURES_DIR, 'assets', `${id}.json`));
+}
+
+// A small placeholder image so thumbnails render without any network
+function placeholderSvg(label) {
+  const text = label.replace(/[<>&"]/g, '');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="240" viewBox="0 0 320 240">
+  <rect width="320" height="240" fill="#ccfbf1"/>
+  <text x="160" y="125" text-anchor="middle" font-family="sans-serif" font-size="14" fill="#0f766e">${text}</text>
+</svg>`;
+}
+
+// One-page PDF showing the document name, with a valid xref table
+function placeholderPdf(label) {
+  const text = label.replace(/[()\\]/g, '');
+  const stream = `BT /F1 18 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+const app = express();
+app.disable('x-powered-by');
+
+app.use((req, res, next) => {
+  console.log(`${req.method} ${req.path}`);
+  setTimeout(next, DELAY_MS);
+});
+
+// Placeholder files stand in for signed URLs: they are fetched by <img>,
+// <iframe> and new tabs, which send no token
+app.get('/api/mock-images/:name', (req, res) => {
+  res.type('image/svg+xml').send(placeholderSvg(req.params.name));
+});
+
+app.get('/api/mock-files/:name', (req, res) => {
+  if (req.params.name.toLowerCase().endsWith('.pdf')) {
+    res.type('application/pdf').set('Content-Disposition', 'inline').send(placeholderPdf(req.params.name));
+  } else {
+    res.type('image/svg+xml').send(placeholderSvg(req.params.name));
+  }
+});
+
+app.use('/api', (req, res, next) => {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'missing bearer token' });
+  }
+  next();
+});
+
+app.get('/api/thing/:id', async (req, res) => {
+  const fixture = await loadAsset(req.params.id);
+  if (!fixture) return res.status(404).json({ error: `thing ${req.params.id} not found` });
+  res.json(fixture.asset);
+});
+
+app.get('/api/assets/:id/pictures', async (req, res) => {
+  const fixture = await loadAsset(req.params.id);
+  if (!fixture || !fixture.pictures) return res.status(404).json({ error: 'no pictures' });
+  res.json(fixture.pictures);
+});
+
+app.get('/api/assets/:id/events/:eventId/documents', async (req, res) => {
+  const fixture = await loadAsset(req.params.id);
+  const docs = fixture?.documents?.[req.params.eventId];
+  if (!docs) return res.status(404).json({ error: 'no documents' });
+  res.json(docs);
+});
+
+app.get('/api/assets/:id/events/:eventId/thumbnails/:name', async (req, res) => {
+  const fixture = await loadAsset(req.params.id);
+  const doc = fixture?.documents?.[req.params.eventId]?.find(d => d.documentName === req.params.name);
+  if (!doc) return res.status(404).json({ error: 'no such document' });
+  res.json({ url: `/api/mock-images/${encodeURIComponent(doc.displayName)}` });
+});
+
+app.get('/api/assets/:id/events/:eventId/download/:name', async (req, res) => {
+  const fixture = await loadAsset(req.params.id);
+  const doc = fixture?.documents?.[req.params.eventId]?.find(d => d.documentName === req.params.name);
+  if (!doc) return res.status(404).json({ error: 'no such document' });
+  res.json({ url: `/api/mock-files/${encodeURIComponent(doc.displayName)}` });
+});
+
+app.get('/api/thirdParty/:id', async (req, res) => {
+  const thirdParties = (await readJson(path.join(FIXTURES_DIR, 'third-parties.json'))) ?? {};
+  const thirdParty = thirdParties[req.params.id];
+  if (!thirdParty) return res.status(404).json({ error: `third party ${req.params.id} not found` });
+  res.json(thirdParty);
+});
+
+app.get('/api/audit/me', (req, res) => {
+  res.json({ username: 'mock-user', allowed: true });
+});
+
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: `not mocked: ${req.method} ${req.originalUrl}` });
+});
+
+app.listen(PORT, () => {
+  console.log(`mock Countroll API listening on :${PORT} (fixtures: ${FIXTURES_DIR})`);
+});
@@ -158,9 +158,9 @@ app.use((req, _res, next) => {
     }
   }
 
-  // AssetLookup: emit one event per /api/thing/{id} hit. No dedupe — repeat
-  // lookups are the engagement signal we want.
-  const assetMatch = req.path.match(/^\/api\/thing\/([^/]+)$/);
+  // AssetLookup: emit one event per /api/thing/{id} (or bundle, below) hit.
+  // No dedupe — repeat lookups are the engagement signal we want.
+  const assetMatch = req.path.match(/^\/api\/(?:thing|bff\/asset)\/([^/]+)$/);
   if (assetMatch && appInsights.defaultClient) {
     appInsights.defaultClient.trackEvent({
       name: 'AssetLookup',
@@ -179,22 +179,26 @@ app.use((req, _res, next) => {
 
 // Stats allowlist gate. Only usernames in STATS_ALLOWLIST may hit
 // /api/stats/*. Reuses decodeJwtPayload so we share JWT handling.
-const STATS_ALLOWLIST = (process.env.STATS_ALLOWLIST || '')
-  .split(',')
-  .map(s => s.trim())
-  .filter(Boolean);
+function parseAllowlist(value) {
+  return (value || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+const STATS_ALLOWLIST = parseAllowlist(process.env.STATS_ALLOWLIST);
 
-function isAllowed(req) {
+function isAllowed(req, allowlist) {
   const auth = req.headers.authorization;
   if (!auth || !auth.startsWith('Bearer ')) return { ok: false, username: '' };
   const payload = decodeJwtPayload(auth.slice(7));
   if (!payload) return { ok: false, username: '' };
   const username = payload.preferred_username || '';
-  return { ok: STATS_ALLOWLIST.includes(username), username };
+  return { ok: allowlist.includes(username), username };
 }
 
 app.use('/api/stats', (req, res, next) => {
-  const { ok, username } = isAllowed(req);
+  const { ok, username } = isAllowed(req, STATS_ALLOWLIST);
   if (!ok) {
     return res.status(403).json({ error: 'not authorized', username });
   }
@@ -206,6 +210,19 @@ app.get('/api/stats/me', (req, res) => {
   res.json({ username: req.statsUsername, allowed: true });
 });
 
+// Hidden-events audit allowlist. Only usernames in AUDIT_ALLOWLIST get the
+// "show hidden events" toggle. HIDDEN events are part of every asset
+// payload, so this gates the UI, not the data.
+const AUDIT_ALLOWLIST = parseAllowlist(process.env.AUDIT_ALLOWLIST);
+
+app.get('/api/audit/me', (req, res) => {
+  const { ok, username } = isAllowed(req, AUDIT_ALLOWLIST);
+  if (!ok) {
+    return res.status(403).json({ error: 'not authorized', username });
+  }
+  res.json({ username, allowed: true });
+});
+
 // All KQL strings in this file pin to Europe/Brussels because the warehouse
 // + users are in Belgium / France. KQL defaults to UTC for now() /
 // startofday() / bin(); without the conversion, "today" in the headline
@@ -361,6 +378,141 @@ app.get('/api/stats/users', async (_req, res) => {
   }
 });
 
+// Asset bundle for the frontend: the asset, its pictures, the documents of
+// every visible OTHER event (where pictures are stored as documents) and the
+// thumbnail URLs of their images, fetched upstream with the caller's token
+// and returned as one payload. Saves the browser dozens of round-trips on
+// rollers with long histories. Every response carries X-BFF so the client
+// can tell "asset not found" from "no bundle endpoint here" (the Vite dev
+// proxy) and fall back. Only the asset itself is required: pictures,
+// documents and thumbnails that fail upstream come back empty, like the
+// client's per-resource path.
+const BFF_CONCURRENCY = 6;
+const BFF_UPSTREAM_TIMEOUT_MS = 30_000;
+
+// Run fn over items with at most `limit` calls in flight.
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function upstreamGet(req, upstreamPath) {
+  return fetch(`${API_TARGET}${upstreamPath}`, {
+    headers: {
+      Authorization: req.headers.authorization,
+      'Third-Party': req.headers['third-party'] ?? '',
+      Accept: 'application/json',
+    },
+    signal: AbortSignal.timeout(BFF_UPSTREAM_TIMEOUT_MS),
+  });
+}
+
+// JSON from an upstream resource the bundle can do without: `fallback`
+// when it fails, times out or isn't JSON.
+async function optionalJson(req, upstreamPath, fallback) {
+  try {
+    const upstreamRes = await upstreamGet(req, upstreamPath);
+    return upstreamRes.ok ? await upstreamRes.json() : fallback;
+  } catch (err) {
+    console.warn(`BFF ${upstreamPath}:`, err.message);
+    return fallback;
+  }
+}
+
+app.get('/api/bff/asset/:id', async (req, res) => {
+  res.set('X-BFF', '1');
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'missing bearer token' });
+  }
+
+  const id = encodeURIComponent(req.params.id);
+  try {
+    const [assetRes, pictures] = await Promise.all([
+      upstreamGet(req, `/api/thing/${id}`),
+      optionalJson(req, `/api/assets/${id}/pictures`, { pictureEvents: [] }),
+    ]);
+    if (!assetRes.ok) {
+      // Pass the upstream status through so the client maps it as usual
+      return res.status(assetRes.status).send(await assetRes.text());
+    }
+    const asset = await assetRes.json();
+
+    const otherEvents = (Array.isArray(asset.events) ? asset.events : [])
+      .filter(e => e.type === 'OTHER' && e.state === 'VISIBLE');
+
+    const documents = {};
+    await mapWithConcurrency(otherEvents, BFF_CONCURRENCY, async e => {
+      documents[e.id] = await optionalJson(req, `/api/assets/${id}/events/${encodeURIComponent(e.id)}/documents`, []);
+    });
+
+    const images = Object.entries(documents).flatMap(([eventId, docs]) =>
+      (Array.isArray(docs) ? docs : [])
+        .filter(d => typeof d.contentType === 'string' && d.contentType.startsWith('image/'))
+        .map(d => ({ eventId, documentName: d.documentName })),
+    );
+    const thumbnails = {};
+    await mapWithConcurrency(images, BFF_CONCURRENCY, async ({ eventId, documentName }) => {
+      let url = '';
+      try {
+        const thumbRes = await upstreamGet(
+          req,
+          `/api/assets/${id}/events/${encodeURIComponent(eventId)}/thumbnails/${encodeURIComponent(documentName)}`,
+        );
+        if (thumbRes.ok) {
+          if ((thumbRes.headers.get('content-type') || '').includes('json')) {
+            const data = await thumbRes.json();
+            url = data.url || data.downloadUrl || '';
+          } else {
+            url = await thumbRes.text();
+          }
+        }
+      } catch (err) {
+        console.warn(`BFF thumbnail ${eventId}/${documentName}:`, err.message);
+      }
+      thumbnails[eventId] = { ...thumbnails[eventId], [documentName]: url };
+    });
+
+    res.json({ asset, pictures, documents, thumbnails });
+  } catch (err) {
+    console.error('BFF asset bundle error:', err.message);
+    const timedOut = err.name === 'TimeoutError';
+    res.status(timedOut ? 504 : 502).send(timedOut ? 'Upstream timeout' : 'Upstream error');
+  }
+});
+
+// Schema drift reported by the frontend when a Countroll response no longer
+// matches its types (see src/api/validate.ts). Lives outside /api so it is
+// never proxied upstream. Requires a Bearer token; fields are truncated and
+// the user comes from the JWT like the audit events above.
+app.post('/telemetry/schema-drift', express.json({ limit: '4kb' }), (req, res) => {
+  const field = (value) => (typeof value === 'string' ? value.slice(0, 200) : '');
+  const auth = req.headers.authorization;
+  const payload = auth?.startsWith('Bearer ') ? decodeJwtPayload(auth.slice(7)) : null;
+  if (!payload) return res.status(401).end();
+  const drift = {
+    user: payload.preferred_username ?? '',
+    resource: field(req.body?.resource),
+    path: field(req.body?.path),
+    issue: field(req.body?.issue),
+    assetId: field(req.body?.assetId),
+  };
+
+  console.warn(`schema drift resource=${drift.resource} path=${drift.path} issue=${drift.issue}`);
+
+  if (appInsights.defaultClient) {
+    appInsights.defaultClient.trackEvent({ name: 'SchemaDrift', properties: drift });
+  }
+  res.status(204).end();
+});
+
 // /api/* -> Countroll. changeOrigin rewrites the Host header to api.countroll.com.
 // No xfwd: Countroll's edge rejects X-Forwarded-* from unknown hops with 403.
 // Drop cookies so the browser's session cookie never reaches the upstream.
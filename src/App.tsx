@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useNavigate, Link } from 'react-router-dom';
 import { AssetPage } from './pages/AssetPage';
 import { StatsPage } from './pages/stats/StatsPage';
+import { WorkOrderPage } from './pages/WorkOrderPage';
+import { ComparePage } from './pages/ComparePage';
 import { initAuth, login, type UserInfo } from './api/auth-code';
 import { probeStatsAccess } from './api/stats-access';
+import { probeHiddenEventsAccess } from './api/audit-access';
 import { LoadingSpinner } from './components/LoadingSpinner';
 
 type AuthState =
@@ -111,9 +114,9 @@ function App() {
       .then(async user => {
         if (user) {
           // Fire-and-await: keeps the loading spinner visible until the
-          // probe resolves so the AssetPage nav bar can render the Stats
-          // link synchronously on first paint.
-          await probeStatsAccess();
+          // probes resolve so the AssetPage can render the Stats link and
+          // the hidden-events toggle synchronously on first paint.
+          await Promise.all([probeStatsAccess(), probeHiddenEventsAccess()]);
           setAuth({ status: 'authenticated', user });
         } else {
           setAuth({ status: 'anonymous' });
@@ -137,6 +140,8 @@ function App() {
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/asset/:assetId" element={<AssetPage />} />
+        <Route path="/wo/:reference" element={<WorkOrderPage />} />
+        <Route path="/compare" element={<ComparePage />} />
         <Route path="/stats" element={<StatsPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -0,0 +1,92 @@
+/**
+ * Persistent asset cache in IndexedDB. Lets the asset page show the last
+ * known asset immediately and refresh it in the background
+ * (stale-while-revalidate). Entries are keyed by user + third party so one
+ * person never sees another's cached data on a shared machine, and the
+ * whole database is dropped on logout.
+ *
+ * Every operation is best-effort: if IndexedDB is unavailable (private mode,
+ * quota) reads miss and writes are dropped.
+ */
+import type { Asset, PictureEvent } from '../types';
+
+const DB_NAME = 'roller-timeline-cache';
+const DB_VERSION = 1;
+const STORE = 'assets';
+
+export interface CachedAssetData {
+  asset: Asset;
+  pictures: PictureEvent[];
+  cachedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Don't cache a failed open — the next call can retry
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function cacheKey(scope: string, assetId: string): string {
+  return `${scope}|${assetId}`;
+}
+
+export async function readCachedAsset(scope: string, assetId: string): Promise<CachedAssetData | null> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(cacheKey(scope, assetId));
+      request.onsuccess = () => resolve((request.result as CachedAssetData | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedAsset(scope: string, assetId: string, data: Omit<CachedAssetData, 'cachedAt'>): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put({ ...data, cachedAt: Date.now() }, cacheKey(scope, assetId));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    // best-effort
+  }
+}
+
+/** Drop every cached asset for every user. Resolves even if deletion fails. */
+export async function clearAssetCache(): Promise<void> {
+  if (dbPromise) {
+    try {
+      (await dbPromise).close();
+    } catch {
+      // open had failed — nothing to close
+    }
+    dbPromise = null;
+  }
+  await new Promise<void>(resolve => {
+    try {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+      request.onblocked = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
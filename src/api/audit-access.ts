@@ -0,0 +1,35 @@
+/**
+ * One-shot probe for /api/audit/me, called at app boot alongside the stats
+ * probe. Users on the server's AUDIT_ALLOWLIST may show HIDDEN events on
+ * the asset page; everyone else never sees the toggle.
+ *
+ * Same 5s timeout as the stats probe: a hanging or failing probe means no
+ * access rather than a blocked boot.
+ */
+import { getAccessToken } from './auth-code';
+import { fetchWithRetry } from './http';
+
+let cached: boolean | null = null;
+const PROBE_TIMEOUT_MS = 5000;
+
+export async function probeHiddenEventsAccess(): Promise<boolean> {
+  if (cached !== null) return cached;
+  try {
+    const token = await getAccessToken();
+    const res = await fetchWithRetry('/api/audit/me', {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+    }, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (!res.ok && res.status !== 403) {
+      console.warn('hidden events access probe failed:', res.status);
+    }
+    cached = res.ok;
+  } catch (err) {
+    console.warn('hidden events access probe failed:', err);
+    cached = false;
+  }
+  return cached;
+}
+
+export function getHiddenEventsAccess(): boolean {
+  return cached === true;
+}
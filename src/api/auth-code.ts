@@ -8,11 +8,18 @@
  * allow a silent redirect-bounce to re-authenticate without user interaction.
  */
 
+import { clearAssetCache } from './asset-cache';
+import { clearWorkOrderIndex } from './work-orders';
+
 const TOKEN_URL =
   import.meta.env.VITE_OAUTH_TOKEN_URL ||
   'https://sso.countroll.com/realms/countroll-realm/protocol/openid-connect/token';
 const CLIENT_ID = (import.meta.env.VITE_OAUTH_CLIENT_ID || '').trim();
 
+// Dev-only: skip Keycloak and sign in as a fake user, for use with the mock
+// API (scripts/mock-api.js). Ignored in production builds.
+const AUTH_BYPASS = import.meta.env.DEV && import.meta.env.VITE_AUTH_BYPASS === 'true';
+
 const STATE_KEY = 'auth:state';
 const RETURN_KEY = 'auth:return';
 
@@ -154,12 +161,23 @@ async function refreshGrant(refreshToken: string): Promise<boolean> {
   return true;
 }
 
+// Unsigned token the mock API accepts; getCurrentUser() decodes its payload
+function bypassToken(): TokenData {
+  const payload = btoa(JSON.stringify({ preferred_username: 'dev', name: 'Local Developer' }));
+  return { accessToken: `bypass.${payload}.unsigned`, refreshToken: '', expiresAt: Number.MAX_SAFE_INTEGER };
+}
+
 /**
  * Initialize auth on app startup.
  * 1. If URL has ?code= + valid state, exchange code for tokens.
  * 2. Otherwise, caller decides whether to show a login button or auto-redirect.
  */
 export async function initAuth(): Promise<UserInfo | null> {
+  if (AUTH_BYPASS) {
+    cachedToken = bypassToken();
+    return getCurrentUser();
+  }
+
   if (!CLIENT_ID) {
     throw new Error('Missing VITE_OAUTH_CLIENT_ID — set it in .env or App Service app settings.');
   }
@@ -228,7 +246,13 @@ export function login(): void {
 
 export function logout(): void {
   cachedToken = null;
-  window.location.href = buildLogoutUrl();
+  // Drop cached assets and the work order index before leaving; the
+  // redirect waits for the cache so the delete isn't cut short by the page
+  // unloading.
+  clearWorkOrderIndex();
+  void clearAssetCache().finally(() => {
+    window.location.href = AUTH_BYPASS ? '/' : buildLogoutUrl();
+  });
 }
 
 export function isAuthenticated(): boolean {
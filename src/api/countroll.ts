@@ -1,5 +1,10 @@
-import type { Asset, PicturesResponse, EventDocument, ThirdParty } from '../types';
-import { getAccessToken, logout } from './auth-code';
+import type { Asset, PicturesResponse, PictureEvent, EventDocument, ThirdParty } from '../types';
+import { getAccessToken, getCurrentUser, logout } from './auth-code';
+import { indexWorkOrders, getWorkOrderAssets, getIndexedAssetCount, type WorkOrderAsset } from './work-orders';
+import { readCachedAsset, writeCachedAsset, type CachedAssetData } from './asset-cache';
+import { fetchWithRetry } from './http';
+import { errorFromResponse, parseJson } from './errors';
+import { validateAsset, validatePicturesResponse } from './validate';
 
 /**
  * API base URL. In dev + prod we use relative paths so the request
@@ -8,16 +13,16 @@ import { getAccessToken, logout } from './auth-code';
 const API_BASE = '';
 const THIRD_PARTY_ID = import.meta.env.VITE_THIRD_PARTY_ID || '2';
 
-async function apiFetch(path: string): Promise<Response> {
+async function apiFetch(path: string, signal?: AbortSignal): Promise<Response> {
   const token = await getAccessToken();
-  return fetch(`${API_BASE}${path}`, {
+  return fetchWithRetry(`${API_BASE}${path}`, {
     method: 'GET',
     headers: {
       Authorization: `Bearer ${token}`,
       'Third-Party': THIRD_PARTY_ID,
       Accept: 'application/json',
     },
-  });
+  }, { signal });
 }
 
 function handleAuthFailure(status: number): void {
@@ -28,58 +33,70 @@ function handleAuthFailure(status: number): void {
 }
 
 /** Fetch asset data (thing) from Countroll API */
-export async function fetchAsset(assetId: string): Promise<Asset> {
-  const response = await apiFetch(`/api/thing/${encodeURIComponent(assetId)}`);
+export async function fetchAsset(assetId: string, signal?: AbortSignal): Promise<Asset> {
+  const response = await apiFetch(`/api/thing/${encodeURIComponent(assetId)}`, signal);
 
   if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Asset not found: ${assetId}`);
-    }
     handleAuthFailure(response.status);
-    const errorText = await response.text();
-    throw new Error(`API request failed (${response.status}): ${errorText}`);
+    throw errorFromResponse(response, `Asset ${assetId}`, THIRD_PARTY_ID);
   }
 
-  return response.json();
+  const asset = validateAsset(await parseJson<unknown>(response, `asset ${assetId}`), assetId);
+  indexWorkOrders(cacheScope(), asset);
+  return asset;
 }
 
 /** Fetch pictures for an asset */
-export async function fetchPictures(assetId: string): Promise<PicturesResponse> {
-  const response = await apiFetch(`/api/assets/${encodeURIComponent(assetId)}/pictures`);
+export async function fetchPictures(assetId: string, signal?: AbortSignal): Promise<PicturesResponse> {
+  const response = await apiFetch(`/api/assets/${encodeURIComponent(assetId)}/pictures`, signal);
 
   if (!response.ok) {
     if (response.status === 404) {
       return { pictureEvents: [] };
     }
     handleAuthFailure(response.status);
-    const errorText = await response.text();
-    throw new Error(`Pictures API request failed (${response.status}): ${errorText}`);
+    throw errorFromResponse(response, `Pictures for asset ${assetId}`, THIRD_PARTY_ID);
   }
 
-  return response.json();
+  return validatePicturesResponse(await parseJson<unknown>(response, `pictures for asset ${assetId}`), assetId);
 }
 
 /** Fetch a third party (customer/partner) by id */
-export async function fetchThirdParty(thirdPartyId: string): Promise<ThirdParty> {
-  const response = await apiFetch(`/api/thirdParty/${encodeURIComponent(thirdPartyId)}`);
+export async function fetchThirdParty(thirdPartyId: string, signal?: AbortSignal): Promise<ThirdParty> {
+  const response = await apiFetch(`/api/thirdParty/${encodeURIComponent(thirdPartyId)}`, signal);
 
   if (!response.ok) {
     handleAuthFailure(response.status);
-    throw new Error(`Third party API request failed (${response.status})`);
+    throw errorFromResponse(response, `Third party ${thirdPartyId}`, THIRD_PARTY_ID);
   }
 
-  return response.json();
+  return parseJson<ThirdParty>(response, `third party ${thirdPartyId}`);
 }
 
 /** Fetch documents attached to a specific event */
-export async function fetchEventDocuments(assetId: string, eventId: string): Promise<EventDocument[]> {
+export async function fetchEventDocuments(
+  assetId: string,
+  eventId: string,
+  signal?: AbortSignal,
+): Promise<EventDocument[]> {
   const response = await apiFetch(
     `/api/assets/${encodeURIComponent(assetId)}/events/${encodeURIComponent(eventId)}/documents`,
+    signal,
   );
 
   if (!response.ok) return [];
 
-  return response.json();
+  return parseJson<EventDocument[]>(response, `documents for event ${eventId}`);
+}
+
+// Signed-URL endpoints answer either JSON ({ url } or { downloadUrl }) or the bare URL
+async function readSignedUrl(response: Response, resource: string): Promise<string> {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('json')) {
+    const data = await parseJson<{ url?: string; downloadUrl?: string }>(response, resource);
+    return data.url || data.downloadUrl || '';
+  }
+  return await response.text();
 }
 
 /** Resolve a time-limited thumbnail URL for an event document image */
@@ -87,17 +104,180 @@ export async function fetchDocumentThumbnailUrl(
   assetId: string,
   eventId: string,
   imageName: string,
+  signal?: AbortSignal,
 ): Promise<string> {
   const response = await apiFetch(
     `/api/assets/${encodeURIComponent(assetId)}/events/${encodeURIComponent(eventId)}/thumbnails/${encodeURIComponent(imageName)}`,
+    signal,
   );
 
   if (!response.ok) return '';
 
-  const contentType = response.headers.get('content-type') || '';
-  if (contentType.includes('json')) {
-    const data = await response.json();
-    return data.url || data.downloadUrl || '';
+  return readSignedUrl(response, `thumbnail ${imageName}`);
+}
+
+/**
+ * Resolve a time-limited download URL for any event document. The URL
+ * expires within about a minute, so resolve it right before use.
+ */
+export async function fetchDocumentDownloadUrl(
+  assetId: string,
+  eventId: string,
+  documentName: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await apiFetch(
+    `/api/assets/${encodeURIComponent(assetId)}/events/${encodeURIComponent(eventId)}/download/${encodeURIComponent(documentName)}`,
+    signal,
+  );
+
+  if (!response.ok) {
+    handleAuthFailure(response.status);
+    throw errorFromResponse(response, `Document ${documentName}`, THIRD_PARTY_ID);
   }
-  return await response.text();
+
+  return readSignedUrl(response, `download ${documentName}`);
+}
+
+export interface AssetData {
+  asset: Asset;
+  pictures: PictureEvent[];
+}
+
+// Cache entries are scoped to the signed-in user and the third party we
+// act as, so switching either never surfaces someone else's data.
+function cacheScope(): string {
+  return `${getCurrentUser()?.preferredUsername ?? ''}|${THIRD_PARTY_ID}`;
+}
+
+// OTHER events store their pictures as documents, so their image documents
+// are loaded up front for the photo grid. Document lists for every event
+// type (PDFs, reports, spreadsheets) are loaded lazily by EventDocuments
+// when the event is opened in the sidebar.
+function otherEvents(asset: Asset) {
+  return (asset.events || []).filter(e => e.type === 'OTHER' && e.state === 'VISIBLE');
+}
+
+function isImageDocument(doc: EventDocument): boolean {
+  return doc.contentType.startsWith('image/');
+}
+
+// Present an OTHER event's image documents like a picture event
+function imageDocumentsToPictureEvent(
+  assetId: string,
+  eventId: string,
+  imageDocs: EventDocument[],
+  thumbnailUrls: string[],
+): PictureEvent {
+  return {
+    url: `https://app.countroll.com/#/thing/${assetId}/events/${eventId}`,
+    numberOfPictures: imageDocs.length,
+    pictures: imageDocs.map((d, i) => ({
+      fileName: d.displayName,
+      documentName: d.documentName,
+      downloadUrl: thumbnailUrls[i],
+      createdOn: d.creationDateTime,
+      updatedOn: d.lastUpdatedDateTime,
+      contentType: d.contentType,
+    })),
+  };
+}
+
+/** Combined payload of the server's /api/bff/asset/:id endpoint */
+interface AssetBundle {
+  asset: unknown;
+  pictures: unknown;
+  /** Documents per OTHER event id */
+  documents?: Record<string, EventDocument[]>;
+  /** Thumbnail URL per OTHER event id, then document name */
+  thumbnails?: Record<string, Record<string, string>>;
+}
+
+// Set once the server turns out not to serve bundles (e.g. the Vite dev
+// proxy forwards /api/bff straight to Countroll), so we stop asking
+let bundleUnavailable = false;
+
+/** Everything for an asset in one request, or null when the endpoint is unavailable */
+async function fetchAssetBundle(assetId: string, signal?: AbortSignal): Promise<AssetData | null> {
+  if (bundleUnavailable) return null;
+
+  const response = await apiFetch(`/api/bff/asset/${encodeURIComponent(assetId)}`, signal);
+  if (!response.headers.has('X-BFF')) {
+    bundleUnavailable = true;
+    return null;
+  }
+  if (!response.ok) {
+    handleAuthFailure(response.status);
+    throw errorFromResponse(response, `Asset ${assetId}`, THIRD_PARTY_ID);
+  }
+
+  const bundle = await parseJson<AssetBundle>(response, `asset ${assetId}`);
+  const asset = validateAsset(bundle.asset, assetId);
+  indexWorkOrders(cacheScope(), asset);
+
+  const pictures = [...validatePicturesResponse(bundle.pictures ?? { pictureEvents: [] }, assetId).pictureEvents];
+  for (const e of otherEvents(asset)) {
+    const imageDocs = (bundle.documents?.[e.id] ?? []).filter(isImageDocument);
+    if (imageDocs.length === 0) continue;
+    const thumbnailUrls = imageDocs.map(d => bundle.thumbnails?.[e.id]?.[d.documentName] ?? '');
+    pictures.push(imageDocumentsToPictureEvent(assetId, e.id, imageDocs, thumbnailUrls));
+  }
+  return { asset, pictures };
+}
+
+// The same data as the bundle, one request per resource
+async function fetchAssetDataPerResource(assetId: string, signal?: AbortSignal): Promise<AssetData> {
+  // Fetch asset and pictures in parallel
+  const [asset, picturesData] = await Promise.all([
+    fetchAsset(assetId, signal),
+    fetchPictures(assetId, signal).catch(() => ({ pictureEvents: [] })),
+  ]);
+
+  const pictures = [...(picturesData.pictureEvents || [])];
+
+  const docResults = await Promise.all(
+    otherEvents(asset).map(async e => {
+      const docs = await fetchEventDocuments(assetId, e.id, signal);
+      const imageDocs = docs.filter(isImageDocument);
+      if (imageDocs.length === 0) return null;
+      // Fetch thumbnail URLs for grid display
+      const thumbnailUrls = await Promise.all(
+        imageDocs.map(d => fetchDocumentThumbnailUrl(assetId, e.id, d.documentName, signal))
+      );
+      return imageDocumentsToPictureEvent(assetId, e.id, imageDocs, thumbnailUrls);
+    })
+  );
+  for (const pe of docResults) {
+    if (pe) pictures.push(pe);
+  }
+
+  return { asset, pictures };
+}
+
+/**
+ * Load everything the asset page shows up front: the asset, its pictures,
+ * and the image documents attached to OTHER events (which store pictures as
+ * documents). Other documents are fetched per event, on demand. Uses the
+ * server's bundle endpoint when there is one, else fetches each resource.
+ * Writes the result to the persistent cache.
+ */
+export async function fetchAssetData(assetId: string, signal?: AbortSignal): Promise<AssetData> {
+  const data = (await fetchAssetBundle(assetId, signal)) ?? (await fetchAssetDataPerResource(assetId, signal));
+  void writeCachedAsset(cacheScope(), assetId, data);
+  return data;
+}
+
+/** Last known data for an asset from the persistent cache, if any */
+export function getCachedAssetData(assetId: string): Promise<CachedAssetData | null> {
+  return readCachedAsset(cacheScope(), assetId);
+}
+
+/** Assets this user has opened that are linked to a work order */
+export function getIndexedWorkOrderAssets(reference: string): WorkOrderAsset[] {
+  return getWorkOrderAssets(cacheScope(), reference);
+}
+
+/** Number of assets in this user's work order index */
+export function getIndexedWorkOrderAssetCount(): number {
+  return getIndexedAssetCount(cacheScope());
 }
@@ -0,0 +1,111 @@
+/**
+ * Typed errors for the Countroll and stats APIs. Pages branch on the class
+ * (via `instanceof`) to pick a message and recovery action instead of
+ * showing raw response text.
+ */
+
+export class ApiError extends Error {
+  /** HTTP status, when the error came from a response */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/** 404 — the asset (or other resource) does not exist */
+export class NotFoundError extends ApiError {
+  constructor(resource: string) {
+    super(`${resource} not found`, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 401 — the access token was rejected */
+export class UnauthorizedError extends ApiError {
+  constructor() {
+    super('Your session has expired', 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 403 from Countroll — the signed-in user may not act as the third party
+ * sent in the Third-Party header (VITE_THIRD_PARTY_ID).
+ */
+export class ForbiddenThirdPartyError extends ApiError {
+  readonly thirdPartyId: string;
+
+  constructor(thirdPartyId: string) {
+    super(`Not allowed to access data as third party ${thirdPartyId}`, 403);
+    this.name = 'ForbiddenThirdPartyError';
+    this.thirdPartyId = thirdPartyId;
+  }
+}
+
+/** 403 from /api/stats/* — the user is not on the stats allowlist */
+export class StatsForbiddenError extends ApiError {
+  constructor() {
+    super('not authorized', 403);
+    this.name = 'StatsForbiddenError';
+  }
+}
+
+/** 502/503/504 after retries, or the server could not be reached at all */
+export class UpstreamUnavailableError extends ApiError {
+  constructor(status?: number) {
+    super(
+      status ? `Countroll is unavailable (${status})` : 'Could not reach the server',
+      status,
+    );
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/** An attempt did not answer within its timeout */
+export class RequestTimeoutError extends ApiError {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs / 1000}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** The response was not the JSON we expected */
+export class MalformedResponseError extends ApiError {
+  constructor(resource: string, status?: number) {
+    super(`Unexpected response for ${resource}`, status);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * Map a non-2xx response to its typed error. `resource` names what was
+ * requested, e.g. "Asset 6168", and ends up in the message.
+ */
+export function errorFromResponse(response: Response, resource: string, thirdPartyId: string): ApiError {
+  switch (response.status) {
+    case 401:
+      return new UnauthorizedError();
+    case 403:
+      return new ForbiddenThirdPartyError(thirdPartyId);
+    case 404:
+      return new NotFoundError(resource);
+    case 502:
+    case 503:
+    case 504:
+      return new UpstreamUnavailableError(response.status);
+    default:
+      return new ApiError(`${resource} request failed (${response.status})`, response.status);
+  }
+}
+
+/** Parse a JSON body, raising MalformedResponseError instead of a SyntaxError */
+export async function parseJson<T>(response: Response, resource: string): Promise<T> {
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new MalformedResponseError(resource, response.status);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * fetch() with a per-request timeout and retries for idempotent GETs.
+ *
+ * The Express proxy answers 502 "Upstream error" whenever Countroll hiccups,
+ * and those almost always succeed a moment later, so GETs are retried on
+ * 502/503/504 and on network failures with jittered exponential backoff.
+ * Aborting the caller's signal cancels the in-flight request and any
+ * pending retry; the promise then rejects with the signal's AbortError.
+ */
+import { RequestTimeoutError, UpstreamUnavailableError } from './errors';
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 400;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+export interface FetchRetryOptions {
+  /** Cancels the request (and any pending retry) when aborted */
+  signal?: AbortSignal;
+  /** Per-attempt timeout */
+  timeoutMs?: number;
+  /** Extra attempts after the first one; only used for GET */
+  retries?: number;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// Full jitter: a random delay up to the exponential cap, so clients that
+// failed together don't retry together
+function backoffDelay(attempt: number): number {
+  return Math.random() * BASE_DELAY_MS * 2 ** attempt;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function attempt(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  try {
+    return await fetch(url, { ...init, signal: combined });
+  } catch (err) {
+    // AbortSignal.timeout aborts with a TimeoutError; report it as ours
+    if (timeout.aborted && !signal?.aborted) throw new RequestTimeoutError(url, timeoutMs);
+    // fetch only rejects with a TypeError when the network request failed
+    if (err instanceof TypeError) throw new UpstreamUnavailableError();
+    throw err;
+  }
+}
+
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: FetchRetryOptions = {},
+): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const maxRetries = method === 'GET' ? retries : 0;
+
+  for (let i = 0; ; i++) {
+    try {
+      const response = await attempt(url, init, timeoutMs, signal);
+      if (i >= maxRetries || !RETRYABLE_STATUSES.has(response.status)) return response;
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted || i >= maxRetries) throw err;
+    }
+    await sleep(backoffDelay(i), signal);
+  }
+}
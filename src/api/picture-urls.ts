@@ -0,0 +1,62 @@
+/**
+ * Re-resolves expired picture URLs. Pictures from the pictures API are
+ * refreshed by re-fetching that list (one request serves every picture of
+ * the asset); pictures that are OTHER-event documents get a new thumbnail
+ * URL. Fresh URLs are remembered per picture for the rest of the session,
+ * so images rendered later start from the newest one.
+ */
+import type { PicturesResponse } from '../types';
+import { fetchPictures, fetchDocumentThumbnailUrl } from './countroll';
+
+export interface PictureRef {
+  assetId: string;
+  eventId: string;
+  fileName: string;
+  documentName?: string;
+  downloadUrl: string;
+}
+
+const freshUrls = new Map<string, string>();
+const picturesRequests = new Map<string, Promise<PicturesResponse>>();
+
+export function pictureKey(ref: Pick<PictureRef, 'assetId' | 'eventId' | 'fileName'>): string {
+  return `${ref.assetId}|${ref.eventId}|${ref.fileName}`;
+}
+
+// Same derivation as the photo library: the deep link ends in /events/<id>
+function eventIdFromUrl(url: string): string {
+  return url.split('/events/')[1] || '';
+}
+
+/** The newest URL known for a picture */
+export function currentPictureUrl(ref: PictureRef): string {
+  return freshUrls.get(pictureKey(ref)) ?? ref.downloadUrl;
+}
+
+// Pictures of an asset, shared by every image refreshing at the same time
+function refetchPictures(assetId: string): Promise<PicturesResponse> {
+  let request = picturesRequests.get(assetId);
+  if (!request) {
+    request = fetchPictures(assetId).finally(() => picturesRequests.delete(assetId));
+    picturesRequests.set(assetId, request);
+  }
+  return request;
+}
+
+/** Resolve a new URL for a picture; empty string when it can't be found */
+export async function refreshPictureUrl(ref: PictureRef): Promise<string> {
+  if (ref.documentName) {
+    const url = await fetchDocumentThumbnailUrl(ref.assetId, ref.eventId, ref.documentName);
+    if (url) freshUrls.set(pictureKey(ref), url);
+    return url;
+  }
+
+  // Every URL in the response is fresh, so remember them all
+  const { pictureEvents } = await refetchPictures(ref.assetId);
+  for (const pe of pictureEvents) {
+    for (const pic of pe.pictures) {
+      freshUrls.set(pictureKey({ assetId: ref.assetId, eventId: eventIdFromUrl(pe.url), fileName: pic.fileName }), pic.downloadUrl);
+    }
+  }
+  return freshUrls.get(pictureKey(ref)) ?? '';
+}
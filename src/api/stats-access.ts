@@ -8,7 +8,8 @@
  * not appear; the user can still type /stats directly to see the
  * NotAuthorized page (or stats themselves if eventually allowed).
  */
-import { getMe, StatsForbiddenError } from './stats';
+import { getMe } from './stats';
+import { StatsForbiddenError } from './errors';
 
 let cached: boolean | null = null;
 const PROBE_TIMEOUT_MS = 5000;
@@ -16,10 +17,8 @@ const PROBE_TIMEOUT_MS = 5000;
 export async function probeStatsAccess(): Promise<boolean> {
   if (cached !== null) return cached;
   try {
-    const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error('stats access probe timed out')), PROBE_TIMEOUT_MS),
-    );
-    await Promise.race([getMe(), timeoutPromise]);
+    // Aborting also cancels the request and any retry still pending
+    await getMe(AbortSignal.timeout(PROBE_TIMEOUT_MS));
     cached = true;
   } catch (err) {
     if (!(err instanceof StatsForbiddenError)) {
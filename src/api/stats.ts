@@ -5,6 +5,8 @@
  * states.
  */
 import { getAccessToken } from './auth-code';
+import { fetchWithRetry } from './http';
+import { StatsForbiddenError, UnauthorizedError, UpstreamUnavailableError, ApiError, parseJson } from './errors';
 
 const THIRD_PARTY_ID = import.meta.env.VITE_THIRD_PARTY_ID || '2';
 
@@ -46,29 +48,25 @@ export interface MeResponse {
   allowed: true;
 }
 
-export class StatsForbiddenError extends Error {
-  constructor() {
-    super('not authorized');
-    this.name = 'StatsForbiddenError';
-  }
-}
-
-async function statsFetch<T>(path: string): Promise<T> {
+async function statsFetch<T>(path: string, signal?: AbortSignal): Promise<T> {
   const token = await getAccessToken();
-  const res = await fetch(path, {
+  const res = await fetchWithRetry(path, {
     headers: {
       Authorization: `Bearer ${token}`,
       'Third-Party': THIRD_PARTY_ID,
       Accept: 'application/json',
     },
-  });
+  }, { signal });
+  if (res.status === 401) throw new UnauthorizedError();
+  // 403 here means "not on the stats allowlist", not a third-party problem
   if (res.status === 403) throw new StatsForbiddenError();
-  if (!res.ok) throw new Error(`${path} failed: ${res.status}`);
-  return res.json() as Promise<T>;
+  if (res.status === 502 || res.status === 503 || res.status === 504) throw new UpstreamUnavailableError(res.status);
+  if (!res.ok) throw new ApiError(`${path} failed: ${res.status}`, res.status);
+  return parseJson<T>(res, path);
 }
 
-export const getMe        = () => statsFetch<MeResponse>('/api/stats/me');
-export const getHeadline  = () => statsFetch<Headline>('/api/stats/headline');
-export const getTrend     = () => statsFetch<TrendDay[]>('/api/stats/trend');
-export const getTopAssets = () => statsFetch<TopAsset[]>('/api/stats/top-assets');
-export const getUsers     = () => statsFetch<UserRow[]>('/api/stats/users');
+export const getMe        = (signal?: AbortSignal) => statsFetch<MeResponse>('/api/stats/me', signal);
+export const getHeadline  = (signal?: AbortSignal) => statsFetch<Headline>('/api/stats/headline', signal);
+export const getTrend     = (signal?: AbortSignal) => statsFetch<TrendDay[]>('/api/stats/trend', signal);
+export const getTopAssets = (signal?: AbortSignal) => statsFetch<TopAsset[]>('/api/stats/top-assets', signal);
+export const getUsers     = (signal?: AbortSignal) => statsFetch<UserRow[]>('/api/stats/users', signal);
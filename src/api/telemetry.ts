@@ -0,0 +1,45 @@
+/**
+ * Developer-facing telemetry. Schema drift — Countroll responses that no
+ * longer match types.ts — is logged to the console and posted to the
+ * server, which forwards it to App Insights as a SchemaDrift event.
+ * Best effort: failures are swallowed, and each distinct drift is only
+ * reported once per page load.
+ */
+import { getAccessToken } from './auth-code';
+
+export interface SchemaDrift {
+  /** Which response, e.g. "asset" or "pictures" */
+  resource: string;
+  /** Where in the response, e.g. "events[].type" */
+  path: string;
+  /** What was wrong, e.g. 'unknown value "CLEANED"' */
+  issue: string;
+  assetId?: string;
+}
+
+const reported = new Set<string>();
+
+export function reportSchemaDrift(drift: SchemaDrift): void {
+  const key = `${drift.resource}|${drift.path}|${drift.issue}`;
+  if (reported.has(key)) return;
+  reported.add(key);
+
+  console.warn(`Schema drift in ${drift.resource} response: ${drift.path} ${drift.issue}`, drift);
+
+  void (async () => {
+    try {
+      const token = await getAccessToken();
+      await fetch('/telemetry/schema-drift', {
+        method: 'POST',
+        keepalive: true,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(drift),
+      });
+    } catch {
+      // Telemetry must never break the page
+    }
+  })();
+}
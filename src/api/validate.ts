@@ -0,0 +1,97 @@
+/**
+ * Runtime checks for Countroll responses against types.ts. Anything we
+ * cannot work with at all (not an object, `events` not a list) raises
+ * MalformedResponseError. Smaller drift is reported via telemetry and
+ * tolerated: unknown event types are kept (the timeline renders them with
+ * a fallback style), while events missing the fields every view relies on
+ * are dropped.
+ */
+import type { Asset, AssetEvent, PicturesResponse, PictureEvent } from '../types';
+import { isKnownEventType } from '../lib/event-types';
+import { MalformedResponseError } from './errors';
+import { reportSchemaDrift } from './telemetry';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const REQUIRED_EVENT_FIELDS = ['id', 'type', 'state', 'creationDateTime'] as const;
+const EVENT_STATES = new Set(['VISIBLE', 'HIDDEN']);
+
+function validateEvent(raw: unknown, assetId: string): AssetEvent | null {
+  const drift = (path: string, issue: string) =>
+    reportSchemaDrift({ resource: 'asset', path: `events[].${path}`, issue, assetId });
+
+  if (!isObject(raw)) {
+    reportSchemaDrift({ resource: 'asset', path: 'events[]', issue: `expected object, got ${describe(raw)}`, assetId });
+    return null;
+  }
+  for (const field of REQUIRED_EVENT_FIELDS) {
+    if (typeof raw[field] !== 'string') {
+      drift(field, `expected string, got ${describe(raw[field])}; event dropped`);
+      return null;
+    }
+  }
+
+  const type = raw.type as string;
+  if (!isKnownEventType(type)) drift('type', `unknown value "${type}"`);
+  if (!EVENT_STATES.has(raw.state as string)) drift('state', `unknown value "${raw.state}"`);
+
+  // Some integrations send diameters as strings
+  if (raw.diameter !== undefined && raw.diameter !== null && typeof raw.diameter !== 'number') {
+    drift('diameter', `expected number, got ${describe(raw.diameter)}`);
+    const parsed = Number(raw.diameter);
+    return { ...raw, diameter: Number.isFinite(parsed) ? parsed : undefined } as unknown as AssetEvent;
+  }
+
+  return raw as unknown as AssetEvent;
+}
+
+export function validateAsset(data: unknown, assetId: string): Asset {
+  if (!isObject(data)) throw new MalformedResponseError(`asset ${assetId}`);
+  if (typeof data.id !== 'string') {
+    reportSchemaDrift({ resource: 'asset', path: 'id', issue: `expected string, got ${describe(data.id)}`, assetId });
+  }
+
+  let events: AssetEvent[] = [];
+  if (Array.isArray(data.events)) {
+    events = data.events
+      .map(e => validateEvent(e, assetId))
+      .filter((e): e is AssetEvent => e !== null);
+  } else if (data.events === undefined || data.events === null) {
+    reportSchemaDrift({ resource: 'asset', path: 'events', issue: 'missing', assetId });
+  } else {
+    throw new MalformedResponseError(`asset ${assetId}`);
+  }
+
+  return { ...data, events } as unknown as Asset;
+}
+
+function validatePictureEvent(raw: unknown, assetId: string): PictureEvent | null {
+  if (isObject(raw) && typeof raw.url === 'string' && Array.isArray(raw.pictures)) {
+    return raw as unknown as PictureEvent;
+  }
+  reportSchemaDrift({ resource: 'pictures', path: 'pictureEvents[]', issue: 'expected { url, pictures[] }; entry dropped', assetId });
+  return null;
+}
+
+export function validatePicturesResponse(data: unknown, assetId: string): PicturesResponse {
+  if (!isObject(data)) throw new MalformedResponseError(`pictures for asset ${assetId}`);
+  if (!Array.isArray(data.pictureEvents)) {
+    reportSchemaDrift({ resource: 'pictures', path: 'pictureEvents', issue: `expected array, got ${describe(data.pictureEvents)}`, assetId });
+    return { pictureEvents: [] };
+  }
+  return {
+    pictureEvents: data.pictureEvents
+      .map(p => validatePictureEvent(p, assetId))
+      .filter((p): p is PictureEvent => p !== null),
+  };
+}
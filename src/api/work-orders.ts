@@ -0,0 +1,132 @@
+/**
+ * Local work order index. Countroll has no "assets in work order" endpoint,
+ * so every asset loaded through fetchAsset is indexed here by the work order
+ * references on its events (ROLLER_LINKED_TO_WO, and the `reference` on
+ * RECOVERED/REGRINDED). The /wo/:reference page reads from this index, so it
+ * only knows about assets that have been opened in this browser.
+ *
+ * Stored in localStorage, capped to the most recently indexed assets. Like
+ * the asset cache, the index is keyed by user + third party (the `scope`)
+ * and dropped on logout, so nobody sees another tenant's work orders.
+ */
+import type { Asset, EventType } from '../types';
+
+const INDEX_KEY_PREFIX = 'wo:index:';
+const MAX_ASSETS = 1000;
+
+export interface WorkOrderEvent {
+  eventId: string;
+  type: EventType;
+  reference: string;
+  creationDateTime: string;
+  title?: string;
+  diameter?: number;
+}
+
+interface IndexedAsset {
+  label: string;
+  description: string;
+  indexedAt: number;
+  events: WorkOrderEvent[];
+}
+
+type WorkOrderIndex = Record<string, IndexedAsset>;
+
+export interface WorkOrderAsset {
+  assetId: string;
+  label: string;
+  description: string;
+  indexedAt: Date;
+  events: WorkOrderEvent[];
+}
+
+function readIndex(scope: string): WorkOrderIndex {
+  try {
+    return JSON.parse(localStorage.getItem(INDEX_KEY_PREFIX + scope) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeIndex(scope: string, index: WorkOrderIndex): void {
+  try {
+    localStorage.setItem(INDEX_KEY_PREFIX + scope, JSON.stringify(index));
+  } catch {
+    // localStorage full or unavailable — the index is best-effort
+  }
+}
+
+/** Record (or replace) the work order references found on an asset */
+export function indexWorkOrders(scope: string, asset: Asset): void {
+  const events = (asset.events || [])
+    .filter(e => e.state === 'VISIBLE' && e.reference?.trim())
+    .map(e => ({
+      eventId: e.id,
+      type: e.type,
+      reference: e.reference!.trim(),
+      creationDateTime: e.creationDateTime,
+      title: e.title,
+      diameter: e.diameter,
+    }));
+
+  const index = readIndex(scope);
+  if (events.length === 0 && !index[asset.id]) return;
+
+  index[asset.id] = {
+    label: (asset.partnerLabels && Object.values(asset.partnerLabels)[0]) || asset.preferredLabel,
+    description: asset.description,
+    indexedAt: Date.now(),
+    events,
+  };
+
+  // Drop the least recently indexed assets once over the cap
+  const ids = Object.keys(index);
+  if (ids.length > MAX_ASSETS) {
+    ids
+      .sort((a, b) => index[a].indexedAt - index[b].indexedAt)
+      .slice(0, ids.length - MAX_ASSETS)
+      .forEach(id => delete index[id]);
+  }
+
+  writeIndex(scope, index);
+}
+
+/** Assets linked to a work order, with the events that carry the reference */
+export function getWorkOrderAssets(scope: string, reference: string): WorkOrderAsset[] {
+  const wanted = reference.trim().toLowerCase();
+  const index = readIndex(scope);
+  const result: WorkOrderAsset[] = [];
+
+  for (const [assetId, entry] of Object.entries(index)) {
+    const events = entry.events.filter(e => e.reference.toLowerCase() === wanted);
+    if (events.length === 0) continue;
+    result.push({
+      assetId,
+      label: entry.label,
+      description: entry.description,
+      indexedAt: new Date(entry.indexedAt),
+      events,
+    });
+  }
+
+  return result.sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
+
+/** Number of assets the index knows about */
+export function getIndexedAssetCount(scope: string): number {
+  return Object.keys(readIndex(scope)).length;
+}
+
+/** Drop the index for every user */
+export function clearWorkOrderIndex(): void {
+  try {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(INDEX_KEY_PREFIX)) keys.push(key);
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // localStorage unavailable — nothing to clear
+  }
+}
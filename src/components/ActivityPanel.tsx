@@ -0,0 +1,74 @@
+import { typeConfig } from '../lib/event-types';
+import { summarizeActivity, type ActivityDimension, type ActivityFilter } from '../lib/activity';
+import type { AssetEvent, EventType } from '../types';
+
+interface ActivityPanelProps {
+  events: AssetEvent[];
+  filter: ActivityFilter | null;
+  onFilterChange: (filter: ActivityFilter | null) => void;
+}
+
+const DIMENSIONS: { dimension: ActivityDimension; title: string }[] = [
+  { dimension: 'person', title: 'People' },
+  { dimension: 'device', title: 'Devices' },
+  { dimension: 'channel', title: 'Creation channel' },
+];
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function ActivityPanel({ events, filter, onFilterChange }: ActivityPanelProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 sm:px-6 py-3 border-b border-gray-200">
+        <h2 className="text-base font-semibold text-gray-900">Activity</h2>
+        <span className="text-xs text-gray-400">Click an entry to show only its events on the timeline</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 divide-y md:divide-y-0 md:divide-x divide-gray-100">
+        {DIMENSIONS.map(({ dimension, title }) => {
+          const entries = summarizeActivity(events, dimension);
+          const max = Math.max(1, ...entries.map(e => e.count));
+          return (
+            <div key={dimension} className="p-4">
+              <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{title}</h3>
+              <ul className="space-y-1">
+                {entries.map(entry => {
+                  const active = filter?.dimension === dimension && filter.key === entry.key;
+                  return (
+                    <li key={entry.key}>
+                      <button
+                        type="button"
+                        onClick={() => onFilterChange(active ? null : { dimension, key: entry.key, label: entry.label })}
+                        title={`${formatDay(entry.first)} – ${formatDay(entry.last)}`}
+                        className={`w-full text-left rounded px-2 py-1 text-sm transition-colors ${
+                          active ? 'bg-teal-50 ring-1 ring-[#1DB898]' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate text-gray-800">{entry.label}</span>
+                          <span className="tabular-nums text-gray-500">{entry.count}</span>
+                        </div>
+                        {/* Proportional bar split by event type */}
+                        <div className="flex h-1.5 mt-1 rounded overflow-hidden bg-gray-100" style={{ width: `${(entry.count / max) * 100}%` }}>
+                          {(Object.entries(entry.types) as [EventType, number][]).map(([type, count]) => (
+                            <span
+                              key={type}
+                              style={{ width: `${(count / entry.count) * 100}%`, backgroundColor: typeConfig(type).color }}
+                            />
+                          ))}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Recovery history: the spec of every cover fitted, oldest first, with a
+ * compact hardness chart and the fields that changed from the previous
+ * recover flagged in amber.
+ */
+import { EVENT_TYPE_CONFIG } from '../lib/event-types';
+import { formatDuration } from '../lib/service-intervals';
+import { COVER_SPEC_FIELDS, type RecoverySpec, type SpecChange } from '../lib/cover-specs';
+import type { AssetEvent } from '../types';
+
+interface CoverSpecHistoryProps {
+  specs: RecoverySpec[];
+  onEventClick?: (event: AssetEvent) => void;
+}
+
+// Inner padding around the plot area (room for axis labels)
+const PAD = { top: 14, right: 16, bottom: 30, left: 36 };
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 150;
+
+// Material swatches along the bottom of the chart, by first appearance
+const MATERIAL_COLORS = ['#16a34a', '#0284c7', '#9333ea', '#ea580c', '#db2777', '#65a30d'];
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function describeChange(change: SpecChange): string {
+  const label = COVER_SPEC_FIELDS.find(f => f.key === change.field)!.label;
+  return `${label}: ${change.from} → ${change.to}`;
+}
+
+// Hardness per recover, evenly spaced so each step reads as "next cover".
+// Points are only joined when both use the same scale.
+function HardnessChart({ specs, onEventClick }: CoverSpecHistoryProps) {
+  const points = specs.map((spec, i) => ({ spec, i })).filter(p => p.spec.hardness);
+  const materials = Array.from(new Set(specs.map(s => s.life.recover.coverMaterial || 'Unknown')));
+
+  const values = points.map(p => p.spec.hardness!.value);
+  const rawMin = values.length > 0 ? Math.min(...values) : 0;
+  const rawMax = values.length > 0 ? Math.max(...values) : 1;
+  const padY = Math.max(2, (rawMax - rawMin) * 0.15);
+  const yMin = rawMin - padY;
+  const yMax = rawMax + padY;
+
+  const plotW = CHART_WIDTH - PAD.left - PAD.right;
+  const plotH = CHART_HEIGHT - PAD.top - PAD.bottom;
+  const step = specs.length > 1 ? plotW / (specs.length - 1) : 0;
+  const x = (i: number) => PAD.left + (specs.length > 1 ? i * step : plotW / 2);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * plotH;
+
+  const segments = points.slice(1).flatMap((p, k) => {
+    const prev = points[k];
+    return prev.spec.hardness!.scale === p.spec.hardness!.scale
+      ? [{ key: p.spec.life.recover.id, x1: x(prev.i), y1: y(prev.spec.hardness!.value), x2: x(p.i), y2: y(p.spec.hardness!.value) }]
+      : [];
+  });
+
+  const stripY = PAD.top + plotH + 6;
+  const stripW = Math.max(step, 12);
+
+  return (
+    <div className="px-4 sm:px-6 py-3 border-b border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">Hardness per recover</dt>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+          {materials.map((m, i) => (
+            <span key={m} className="inline-flex items-center gap-1">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: MATERIAL_COLORS[i % MATERIAL_COLORS.length] }} />
+              {m}
+            </span>
+          ))}
+          <span className="inline-flex items-center gap-1 text-amber-700">
+            <span className="inline-block w-2.5 h-2.5 rounded-full ring-2 ring-amber-500" /> Spec changed
+          </span>
+        </div>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto max-h-48"
+        role="img"
+        aria-label="Cover hardness per recover"
+      >
+        {values.length > 0 && (
+          <>
+            <text x={PAD.left - 6} y={PAD.top + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {Math.round(yMax)}
+            </text>
+            <text x={PAD.left - 6} y={PAD.top + plotH} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {Math.round(yMin)}
+            </text>
+          </>
+        )}
+        <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} className="stroke-gray-200" />
+
+        {segments.map(s => (
+          <line key={s.key} x1={s.x1} y1={s.y1} x2={s.x2} y2={s.y2} className="stroke-gray-300" strokeWidth={1.5} />
+        ))}
+
+        {specs.map((spec, i) => {
+          const recover = spec.life.recover;
+          const material = recover.coverMaterial || 'Unknown';
+          const color = MATERIAL_COLORS[materials.indexOf(material) % MATERIAL_COLORS.length];
+          const changed = spec.changes.length > 0;
+          const cx = x(i);
+          const label = [
+            `${formatDay(recover.creationDateTime)} — ${[material, recover.coverHardness, recover.coverColor].filter(Boolean).join(' · ')}`,
+            ...spec.changes.map(describeChange),
+          ].join('\n');
+          return (
+            <g
+              key={recover.id}
+              onClick={onEventClick ? () => onEventClick(recover) : undefined}
+              className={onEventClick ? 'cursor-pointer' : undefined}
+            >
+              {/* Material strip below the axis */}
+              <rect x={cx - stripW / 2} y={stripY} width={stripW} height={6} fill={color} opacity={0.8} />
+              <text x={cx} y={CHART_HEIGHT - 4} textAnchor="middle" className="fill-gray-400 text-[10px]">
+                {new Date(recover.creationDateTime).getFullYear()}
+              </text>
+              {spec.hardness && (
+                <>
+                  {changed && <circle cx={cx} cy={y(spec.hardness.value)} r={8} fill="none" stroke="#f59e0b" strokeWidth={2} />}
+                  <circle cx={cx} cy={y(spec.hardness.value)} r={4.5} fill={color} />
+                  <text x={cx} y={y(spec.hardness.value) - 10} textAnchor="middle" className="fill-gray-600 text-[10px]">
+                    {spec.hardness.value}
+                  </text>
+                  {/* Larger transparent hit area so small markers are easy to click */}
+                  <circle cx={cx} cy={y(spec.hardness.value)} r={10} fill="transparent" />
+                </>
+              )}
+              <title>{label}</title>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+export function CoverSpecHistory({ specs, onEventClick }: CoverSpecHistoryProps) {
+  if (specs.length === 0) return null;
+
+  const changeCount = specs.filter(s => s.changes.length > 0).length;
+  const regrindIcon = EVENT_TYPE_CONFIG.REGRINDED.icon;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Recovery history ({specs.length})
+        {changeCount > 0 && (
+          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 align-middle">
+            {changeCount} spec change{changeCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </h2>
+      {specs.length > 1 && <HardnessChart specs={specs} onEventClick={onEventClick} />}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+            <tr>
+              <th className="px-4 py-2 text-left">Recovered</th>
+              {COVER_SPEC_FIELDS.map(f => (
+                <th key={f.key} className="px-4 py-2 text-left">{f.label}</th>
+              ))}
+              <th className="px-4 py-2 text-right">Regrinds</th>
+              <th className="px-4 py-2 text-right">Cover life</th>
+            </tr>
+          </thead>
+          <tbody>
+            {specs.map(spec => {
+              const recover = spec.life.recover;
+              return (
+                <tr
+                  key={recover.id}
+                  onClick={onEventClick ? () => onEventClick(recover) : undefined}
+                  className={`border-t border-gray-100 ${onEventClick ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                    {formatDay(recover.creationDateTime)}
+                    {!spec.life.end && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        fitted
+                      </span>
+                    )}
+                  </td>
+                  {COVER_SPEC_FIELDS.map(f => {
+                    const change = spec.changes.find(c => c.field === f.key);
+                    return (
+                      <td
+                        key={f.key}
+                        title={change ? `Was ${change.from}` : undefined}
+                        className={`px-4 py-2 whitespace-nowrap ${change ? 'bg-amber-50 text-amber-900 font-medium' : 'text-gray-700'}`}
+                      >
+                        {recover[f.key] || '—'}
+                        {change && <span className="ml-1 text-xs text-amber-600">(was {change.from})</span>}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-right tabular-nums text-gray-600">
+                    {spec.life.regrinds.length > 0 ? `${spec.life.regrinds.length}× ${regrindIcon}` : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums text-gray-600">{formatDuration(spec.days)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
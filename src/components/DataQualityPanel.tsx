@@ -0,0 +1,51 @@
+import type { AssetEvent } from '../types';
+import type { DataQualityIssue, Severity } from '../lib/data-quality';
+
+interface DataQualityPanelProps {
+  issues: DataQualityIssue[];
+  events: AssetEvent[];
+  onEventClick?: (event: AssetEvent) => void;
+}
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-sky-100 text-sky-800',
+};
+
+export function DataQualityPanel({ issues, events, onEventClick }: DataQualityPanelProps) {
+  if (issues.length === 0) return null;
+
+  const eventsById = new Map(events.map(e => [e.id, e]));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Data quality ({issues.length})
+      </h2>
+      <ul>
+        {issues.map((issue, i) => {
+          const event = eventsById.get(issue.eventIds[0]);
+          return (
+            <li key={`${issue.ruleId}-${i}`} className="border-t border-gray-100 first:border-t-0">
+              <button
+                type="button"
+                onClick={event && onEventClick ? () => onEventClick(event) : undefined}
+                disabled={!event || !onEventClick}
+                className="w-full flex items-start gap-3 px-4 sm:px-6 py-2 text-left text-sm hover:bg-gray-50 disabled:hover:bg-transparent"
+              >
+                <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[issue.severity]}`}>
+                  {issue.severity}
+                </span>
+                <span className="text-gray-700">
+                  <span className="block font-medium text-gray-900">{issue.label}</span>
+                  {issue.message}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
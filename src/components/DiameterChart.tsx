@@ -0,0 +1,140 @@
+/**
+ * Hand-rolled SVG line chart of cover diameter over time. Plots every event
+ * that carries a `diameter`, with distinct markers for regrinds (▼) and
+ * recovers (▲), and draws the nominal cover diameter as a dashed reference.
+ */
+import { EVENT_TYPE_CONFIG, typeConfig } from '../lib/event-types';
+import type { AssetEvent } from '../types';
+
+interface DiameterChartProps {
+  events: AssetEvent[];
+  nominalDiameter?: number;
+  onPointClick?: (event: AssetEvent) => void;
+  width?: number;
+  height?: number;
+}
+
+// Inner padding around the plot area (room for axis labels)
+const PAD = { top: 12, right: 12, bottom: 20, left: 40 };
+
+export function DiameterChart({
+  events,
+  nominalDiameter,
+  onPointClick,
+  width = 420,
+  height = 160,
+}: DiameterChartProps) {
+  const points = events
+    .filter(e => typeof e.diameter === 'number' && e.diameter > 0)
+    .map(e => ({ event: e, time: new Date(e.creationDateTime).getTime(), diameter: e.diameter! }))
+    .sort((a, b) => a.time - b.time);
+
+  if (points.length === 0) return null;
+
+  // Y domain covers every point plus the reference line, with a little headroom
+  const values = points.map(p => p.diameter);
+  if (nominalDiameter) values.push(nominalDiameter);
+  const rawMin = Math.min(...values);
+  const rawMax = Math.max(...values);
+  const padY = Math.max(1, (rawMax - rawMin) * 0.1);
+  const yMin = rawMin - padY;
+  const yMax = rawMax + padY;
+
+  // X domain: a single point gets a one-month window around it
+  const tMin = points[0].time;
+  const tMax = points[points.length - 1].time;
+  const tSpan = tMax - tMin || 1000 * 60 * 60 * 24 * 30;
+  const tStart = tMax === tMin ? tMin - tSpan / 2 : tMin;
+
+  const plotW = width - PAD.left - PAD.right;
+  const plotH = height - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - tStart) / tSpan) * plotW;
+  const y = (d: number) => PAD.top + (1 - (d - yMin) / (yMax - yMin)) * plotH;
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time)},${y(p.diameter)}`).join(' ');
+
+  // One x-axis label per year boundary, plus the first year
+  const years: number[] = [];
+  for (let year = new Date(tStart).getFullYear(); year <= new Date(tStart + tSpan).getFullYear(); year++) {
+    years.push(year);
+  }
+  const yearLabels = years
+    .map(year => ({ year, t: Math.max(tStart, new Date(year, 0, 1).getTime()) }))
+    .filter(l => l.t <= tStart + tSpan);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-3 sm:p-4 flex-1 min-w-[280px]">
+      <div className="flex items-center justify-between mb-1">
+        <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">Diameter trend</dt>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <span style={{ color: EVENT_TYPE_CONFIG.REGRINDED.color }}>{EVENT_TYPE_CONFIG.REGRINDED.icon} Regrind</span>
+          <span style={{ color: EVENT_TYPE_CONFIG.RECOVERED.color }}>{EVENT_TYPE_CONFIG.RECOVERED.icon} Recover</span>
+          {nominalDiameter && <span className="text-gray-400">- - Nominal</span>}
+        </div>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Diameter over time"
+      >
+        {/* Y axis labels */}
+        <text x={PAD.left - 6} y={PAD.top + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+          {Math.round(yMax)}
+        </text>
+        <text x={PAD.left - 6} y={PAD.top + plotH} textAnchor="end" className="fill-gray-400 text-[10px]">
+          {Math.round(yMin)}
+        </text>
+        <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} className="stroke-gray-200" />
+
+        {/* X axis year labels */}
+        {yearLabels.map(l => (
+          <text key={l.year} x={x(l.t)} y={height - 4} textAnchor="middle" className="fill-gray-400 text-[10px]">
+            {l.year}
+          </text>
+        ))}
+
+        {/* Nominal diameter reference */}
+        {nominalDiameter && (
+          <line
+            x1={PAD.left}
+            y1={y(nominalDiameter)}
+            x2={PAD.left + plotW}
+            y2={y(nominalDiameter)}
+            className="stroke-gray-400"
+            strokeDasharray="4 3"
+          >
+            <title>{`Nominal: ${nominalDiameter} mm`}</title>
+          </line>
+        )}
+
+        <path d={path} fill="none" className="stroke-gray-300" strokeWidth={1.5} />
+
+        {points.map(p => {
+          const cx = x(p.time);
+          const cy = y(p.diameter);
+          const config = typeConfig(p.event.type);
+          const label = `${new Date(p.time).toISOString().slice(0, 10)} — ${config.label}: ${p.diameter} mm`;
+          // ▲ for recovers, ▼ for regrinds, a dot for anything else
+          const marker = p.event.type === 'RECOVERED'
+            ? <path d={`M${cx},${cy - 6} L${cx + 5},${cy + 4} L${cx - 5},${cy + 4} Z`} fill={config.color} />
+            : p.event.type === 'REGRINDED'
+              ? <path d={`M${cx},${cy + 6} L${cx + 5},${cy - 4} L${cx - 5},${cy - 4} Z`} fill={config.color} />
+              : <circle cx={cx} cy={cy} r={3.5} fill={config.color} />;
+          return (
+            <g
+              key={p.event.id}
+              onClick={onPointClick ? () => onPointClick(p.event) : undefined}
+              className={onPointClick ? 'cursor-pointer' : undefined}
+            >
+              {marker}
+              {/* Larger transparent hit area so small markers are easy to click */}
+              <circle cx={cx} cy={cy} r={9} fill="transparent" />
+              <title>{label}</title>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -1,49 +1,109 @@
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenThirdPartyError,
+  UpstreamUnavailableError,
+  RequestTimeoutError,
+  MalformedResponseError,
+} from '../api/errors';
+import { logout } from '../api/auth-code';
+
 interface ErrorStateProps {
+  title?: string;
+  message?: string;
+  suggestion?: string;
+  /** A thrown API error; picks the title, message and recovery action */
+  error?: unknown;
+  onRetry?: () => void;
+}
+
+type RecoveryAction = 'retry' | 'login' | null;
+
+interface ErrorDescription {
   title: string;
   message: string;
   suggestion?: string;
-  onRetry?: () => void;
+  action: RecoveryAction;
+}
+
+function describeError(error: unknown): ErrorDescription {
+  if (error instanceof NotFoundError) {
+    return {
+      title: 'Not Found',
+      message: `${error.message}.`,
+      suggestion: 'Check the asset ID in the URL and try again.',
+      action: null,
+    };
+  }
+  if (error instanceof UnauthorizedError) {
+    return {
+      title: 'Session Expired',
+      message: 'Countroll no longer accepts your sign-in.',
+      suggestion: 'Sign in again to continue.',
+      action: 'login',
+    };
+  }
+  if (error instanceof ForbiddenThirdPartyError) {
+    return {
+      title: 'Access Denied',
+      message: `Your account may not view data as third party ${error.thirdPartyId}.`,
+      suggestion: `Check the third-party header: this app sends "Third-Party: ${error.thirdPartyId}" (VITE_THIRD_PARTY_ID). Ask an administrator to grant your account access, or sign in with another account.`,
+      action: 'login',
+    };
+  }
+  if (error instanceof UpstreamUnavailableError) {
+    return {
+      title: 'Countroll Unavailable',
+      message: error.status
+        ? 'Countroll did not answer, even after a few attempts.'
+        : 'The server could not be reached.',
+      suggestion: 'Check your network connection, then try again in a moment.',
+      action: 'retry',
+    };
+  }
+  if (error instanceof RequestTimeoutError) {
+    return {
+      title: 'Request Timed Out',
+      message: 'Countroll took too long to answer.',
+      suggestion: 'Try again; large assets can take a while to load.',
+      action: 'retry',
+    };
+  }
+  if (error instanceof MalformedResponseError) {
+    return {
+      title: 'Unexpected Response',
+      message: `${error.message}.`,
+      suggestion: 'This is usually temporary. If it keeps happening, report the asset ID.',
+      action: 'retry',
+    };
+  }
+  return {
+    title: 'Something Went Wrong',
+    message: error instanceof Error ? error.message : String(error),
+    suggestion: 'Check your network connection, then try again.',
+    action: 'retry',
+  };
 }
 
-export function ErrorState({ title, message, suggestion, onRetry }: ErrorStateProps) {
+export function ErrorState(props: ErrorStateProps) {
+  const described = props.error !== undefined ? describeError(props.error) : null;
+  const title = props.title ?? described?.title ?? 'Error';
+  const message = props.message ?? described?.message ?? '';
+  const suggestion = props.suggestion ?? described?.suggestion;
+  const action: RecoveryAction = described ? described.action : props.onRetry ? 'retry' : null;
+  const onRetry = action === 'retry' ? props.onRetry : undefined;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white border-b border-gray-200 px-4 py-3">
         <a href="/"><img src="/countroll-logo.svg" alt="Countroll" className="h-5" /></a>
       </header>
-    <div className="flex items-center justify-center p-4" style={{ minHeight: 'calc(100vh - 53px)' }}>
-      <div className="text-center max-w-md">
-        {/* Error Icon */}
-        <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
-          <svg
-            className="w-8 h-8 text-red-600"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-            />
-          </svg>
-        </div>
-
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
-        <p className="text-gray-600 mb-4">{message}</p>
-
-        {suggestion && (
-          <p className="text-sm text-gray-500 mb-4">{suggestion}</p>
-        )}
-
-        {onRetry && (
-          <button
-            onClick={onRetry}
-            className="inline-flex items-center px-4 py-2 bg-[#1DB898] text-white rounded-lg hover:bg-[#189e83] transition-colors"
-          >
+      <div className="flex items-center justify-center p-4" style={{ minHeight: 'calc(100vh - 53px)' }}>
+        <div className="text-center max-w-md">
+          {/* Error Icon */}
+          <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
             <svg
-              className="w-4 h-4 mr-2"
+              className="w-8 h-8 text-red-600"
               fill="none"
               viewBox="0 0 24 24"
               stroke="currentColor"
@@ -52,13 +112,49 @@ export function ErrorState({ title, message, suggestion, onRetry }: ErrorStatePr
                 strokeLinecap="round"
                 strokeLinejoin="round"
                 strokeWidth={2}
-                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
               />
             </svg>
-            Try Again
-          </button>
-        )}
-      </div>
+          </div>
+
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+          <p className="text-gray-600 mb-4">{message}</p>
+
+          {suggestion && (
+            <p className="text-sm text-gray-500 mb-4">{suggestion}</p>
+          )}
+
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="inline-flex items-center px-4 py-2 bg-[#1DB898] text-white rounded-lg hover:bg-[#189e83] transition-colors"
+            >
+              <svg
+                className="w-4 h-4 mr-2"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+              Try Again
+            </button>
+          )}
+
+          {action === 'login' && (
+            <button
+              onClick={() => logout()}
+              className="inline-flex items-center px-4 py-2 bg-[#1DB898] text-white rounded-lg hover:bg-[#189e83] transition-colors"
+            >
+              Sign In Again
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,86 @@
+import { eventDetailRows, formatEventDate, formatLastUpdate, isCommentEvent } from '../lib/event-format';
+import type { AssetEvent } from '../types';
+
+interface EventDetailsProps {
+  event: AssetEvent;
+  /** `compact` for the timeline tooltip, `full` for the sidebar */
+  variant: 'compact' | 'full';
+}
+
+/**
+ * Date, title, comment and detail lines of an event. Rendered as React
+ * text, never as HTML, since titles and comments are user-entered.
+ */
+export function EventDetails({ event, variant }: EventDetailsProps) {
+  const rows = eventDetailRows(event);
+  const highlight = isCommentEvent(event);
+  // The API has no "hidden by"; hiding is an update, so the last update is
+  // the best answer for who hid it and when
+  const hidden = event.state === 'HIDDEN';
+
+  if (variant === 'compact') {
+    // The sidebar lists the work order with the other order numbers
+    const compactRows = (event.type === 'RECOVERED' || event.type === 'REGRINDED') && event.reference
+      ? [{ label: 'Work Order', value: event.reference }, ...rows]
+      : rows;
+    return (
+      <>
+        {hidden && (
+          <div className="text-xs text-gray-500 italic mb-1">Hidden · last updated {formatLastUpdate(event)}</div>
+        )}
+        {event.title && <div className="font-semibold text-sm mb-1">{event.title}</div>}
+        <div className="text-xs text-gray-500 mb-2">{formatEventDate(event)}</div>
+        {event.description && (highlight ? <mark>{event.description}</mark> : <div>{event.description}</div>)}
+        {compactRows.length > 0 && (
+          <div className="text-xs leading-relaxed">
+            {compactRows.map(row => (
+              <div key={row.label}>
+                <span className="text-gray-500">{row.label}:</span> {row.value}
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {hidden && (
+        <div className="mb-4 p-3 bg-gray-100 border-l-4 border-gray-400 rounded text-sm text-gray-700">
+          <p className="font-medium">Hidden event</p>
+          <p className="text-gray-500">Last updated {formatLastUpdate(event)}</p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500 mb-4">{formatEventDate(event)}</p>
+
+      {event.title && (
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">{event.title}</h2>
+      )}
+
+      {event.description && (
+        <div
+          className={`mb-4 ${
+            highlight
+              ? 'p-3 bg-amber-50 border-l-4 border-amber-400 rounded text-amber-900 font-medium'
+              : 'text-gray-700'
+          }`}
+        >
+          {event.description}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between text-sm">
+              <span className="text-gray-500">{row.label}</span>
+              <span className="text-gray-900 font-medium">{row.value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { fetchEventDocuments, fetchDocumentDownloadUrl } from '../api/countroll';
+import type { EventDocument } from '../types';
+
+interface EventDocumentsProps {
+  assetId: string;
+  eventId: string;
+}
+
+interface LoadedDocuments {
+  eventId: string;
+  documents: EventDocument[];
+}
+
+interface Preview {
+  eventId: string;
+  documentName: string;
+  url: string | null;
+  error?: string;
+}
+
+// Icon per content type, by family
+function documentIcon(contentType: string): string {
+  if (contentType === 'application/pdf') return '📕';
+  if (contentType.startsWith('image/')) return '🖼';
+  if (contentType.includes('spreadsheet') || contentType.includes('excel') || contentType === 'text/csv') return '📊';
+  if (contentType.includes('word') || contentType.startsWith('text/')) return '📝';
+  return '📎';
+}
+
+function isPreviewable(contentType: string): boolean {
+  return contentType === 'application/pdf' || contentType.startsWith('image/');
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Every document attached to an event, for events of any type; the list is
+ * fetched when the event is opened rather than with the asset. Download URLs
+ * are signed and expire quickly, so they are resolved on click rather than
+ * up front.
+ */
+export function EventDocuments({ assetId, eventId }: EventDocumentsProps) {
+  const [loaded, setLoaded] = useState<LoadedDocuments | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchEventDocuments(assetId, eventId, controller.signal)
+      .then(documents => setLoaded({ eventId, documents }))
+      .catch(() => {
+        if (!controller.signal.aborted) setLoaded({ eventId, documents: [] });
+      });
+    return () => controller.abort();
+  }, [assetId, eventId]);
+
+  // Results of the previous event are ignored until this one's arrive
+  const documents = loaded?.eventId === eventId ? loaded.documents : null;
+  const activePreview = preview?.eventId === eventId ? preview : null;
+
+  const showPreview = async (doc: EventDocument) => {
+    if (activePreview?.documentName === doc.documentName) {
+      setPreview(null);
+      return;
+    }
+    setPreview({ eventId, documentName: doc.documentName, url: null });
+    try {
+      const url = await fetchDocumentDownloadUrl(assetId, eventId, doc.documentName);
+      setPreview(p => (p?.eventId === eventId && p.documentName === doc.documentName ? { ...p, url } : p));
+    } catch {
+      setPreview(p =>
+        p?.eventId === eventId && p.documentName === doc.documentName ? { ...p, error: 'Could not load the preview.' } : p,
+      );
+    }
+  };
+
+  const download = async (doc: EventDocument) => {
+    // Open the tab right away; popup blockers reject window.open after an await
+    // (with 'noopener' it would return null, so cut the opener by hand).
+    const tab = window.open('', '_blank');
+    if (tab) tab.opener = null;
+    try {
+      const url = await fetchDocumentDownloadUrl(assetId, eventId, doc.documentName);
+      if (tab) tab.location.replace(url);
+      else window.open(url, '_blank', 'noopener,noreferrer');
+    } catch {
+      tab?.close();
+    }
+  };
+
+  if (documents === null) {
+    return <p className="text-sm text-gray-400 mb-6">Loading documents…</p>;
+  }
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-gray-700 mb-3">Documents ({documents.length})</h3>
+      <ul className="space-y-2">
+        {documents.map(doc => (
+          <li key={doc.documentName} className="rounded-lg border border-gray-200">
+            <div className="flex items-center gap-3 p-2">
+              <span className="text-xl shrink-0" aria-hidden="true">{documentIcon(doc.contentType)}</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-gray-900 truncate" title={doc.displayName}>{doc.displayName}</p>
+                <p className="text-xs text-gray-400">{formatDay(doc.creationDateTime)} · {doc.contentType}</p>
+              </div>
+              {isPreviewable(doc.contentType) && (
+                <button
+                  type="button"
+                  onClick={() => void showPreview(doc)}
+                  className="text-xs text-gray-500 hover:text-[#1DB898] px-2 py-1"
+                >
+                  {activePreview?.documentName === doc.documentName ? 'Hide' : 'Preview'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => void download(doc)}
+                className="text-xs text-[#1DB898] hover:text-[#189e83] font-medium px-2 py-1"
+              >
+                Download
+              </button>
+            </div>
+
+            {activePreview?.documentName === doc.documentName && (
+              <div className="border-t border-gray-100 bg-gray-50">
+                {activePreview.error ? (
+                  <p className="text-xs text-red-600 p-2">{activePreview.error}</p>
+                ) : !activePreview.url ? (
+                  <p className="text-xs text-gray-400 p-2">Loading preview…</p>
+                ) : doc.contentType === 'application/pdf' ? (
+                  <iframe src={activePreview.url} title={doc.displayName} className="w-full h-96" />
+                ) : (
+                  <img src={activePreview.url} alt={doc.displayName} className="w-full h-auto" />
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Where each event was recorded, from `gpsCoordinates`. With a tile server
+ * configured (VITE_MAP_TILE_URL, a {z}/{x}/{y} template — e.g. a locally
+ * hosted tile server) events are drawn on a Web Mercator map. Without one we
+ * fall back to a plain lat/lng scatter plot that needs no network at all.
+ */
+import { typeConfig } from '../lib/event-types';
+import { parseGpsCoordinates, project, fitZoom, tileUrl, TILE_SIZE, type LatLng } from '../lib/geo';
+import type { AssetEvent } from '../types';
+
+interface EventMapProps {
+  events: AssetEvent[];
+  onEventClick?: (event: AssetEvent) => void;
+  width?: number;
+  height?: number;
+}
+
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || '';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_ATTRIBUTION || '';
+
+// Inner padding so edge markers aren't clipped
+const PAD = 24;
+
+interface Site {
+  position: LatLng;
+  events: AssetEvent[];
+}
+
+// Events recorded at (almost) the same spot share one marker. 4 decimals is
+// ~10 m — same workshop or customer site.
+function groupBySite(events: AssetEvent[]): Site[] {
+  const sites = new Map<string, Site>();
+  for (const event of events) {
+    const position = parseGpsCoordinates(event.gpsCoordinates);
+    if (!position) continue;
+    const key = `${position.lat.toFixed(4)},${position.lng.toFixed(4)}`;
+    const site = sites.get(key) ?? { position, events: [] };
+    site.events.push(event);
+    sites.set(key, site);
+  }
+  for (const site of sites.values()) {
+    site.events.sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+  }
+  return Array.from(sites.values());
+}
+
+function siteTitle(site: Site): string {
+  return site.events
+    .map(e => {
+      const label = typeConfig(e.type).label;
+      const device = e.deviceId ? ` · ${e.deviceType ? `${e.deviceType} ` : ''}${e.deviceId}` : '';
+      return `${e.creationDateTime.slice(0, 10)} — ${label}${device}`;
+    })
+    .join('\n');
+}
+
+export function EventMap({ events, onEventClick, width = 640, height = 320 }: EventMapProps) {
+  const sites = groupBySite(events);
+  if (sites.length === 0) return null;
+
+  // Pixel position per site, plus the tile layer when a tile server is set
+  let toPixel: (p: LatLng) => { x: number; y: number };
+  const tiles: { key: string; href: string; x: number; y: number }[] = [];
+  const gridLines: { key: string; x1: number; y1: number; x2: number; y2: number; label: string; lx: number; ly: number }[] = [];
+
+  if (TILE_URL) {
+    const zoom = fitZoom(sites.map(s => s.position), width - 2 * PAD, height - 2 * PAD);
+    const projected = sites.map(s => project(s.position, zoom));
+    const cx = (Math.min(...projected.map(p => p.x)) + Math.max(...projected.map(p => p.x))) / 2;
+    const cy = (Math.min(...projected.map(p => p.y)) + Math.max(...projected.map(p => p.y))) / 2;
+    const left = cx - width / 2;
+    const top = cy - height / 2;
+    toPixel = p => {
+      const { x, y } = project(p, zoom);
+      return { x: x - left, y: y - top };
+    };
+
+    const count = 2 ** zoom;
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue;
+        const wrappedX = ((tx % count) + count) % count;
+        tiles.push({
+          key: `${zoom}/${tx}/${ty}`,
+          href: tileUrl(TILE_URL, zoom, wrappedX, ty),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  } else {
+    // Plain equirectangular plot of the bounding box, padded so a single
+    // site (or sites in a line) still gets some room around it
+    const lats = sites.map(s => s.position.lat);
+    const lngs = sites.map(s => s.position.lng);
+    const spanLat = Math.max(Math.max(...lats) - Math.min(...lats), 0.01);
+    const spanLng = Math.max(Math.max(...lngs) - Math.min(...lngs), 0.01);
+    const minLat = Math.min(...lats) - spanLat * 0.1;
+    const maxLat = Math.max(...lats) + spanLat * 0.1;
+    const minLng = Math.min(...lngs) - spanLng * 0.1;
+    const maxLng = Math.max(...lngs) + spanLng * 0.1;
+    toPixel = p => ({
+      x: PAD + ((p.lng - minLng) / (maxLng - minLng)) * (width - 2 * PAD),
+      y: PAD + (1 - (p.lat - minLat) / (maxLat - minLat)) * (height - 2 * PAD),
+    });
+
+    // Corner labels for orientation
+    const tl = toPixel({ lat: maxLat, lng: minLng });
+    const br = toPixel({ lat: minLat, lng: maxLng });
+    gridLines.push(
+      { key: 'top', x1: tl.x, y1: tl.y, x2: br.x, y2: tl.y, label: `${maxLat.toFixed(3)}°`, lx: tl.x + 2, ly: tl.y - 4 },
+      { key: 'bottom', x1: tl.x, y1: br.y, x2: br.x, y2: br.y, label: `${minLat.toFixed(3)}°`, lx: tl.x + 2, ly: br.y + 12 },
+      { key: 'left', x1: tl.x, y1: tl.y, x2: tl.x, y2: br.y, label: '', lx: 0, ly: 0 },
+      { key: 'right', x1: br.x, y1: tl.y, x2: br.x, y2: br.y, label: `${minLng.toFixed(3)}° – ${maxLng.toFixed(3)}°`, lx: br.x - 2, ly: br.y + 12 },
+    );
+  }
+
+  // Route between sites in the order events were recorded
+  const route = [...events]
+    .sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime))
+    .map(e => parseGpsCoordinates(e.gpsCoordinates))
+    .filter((p): p is LatLng => p !== null)
+    .map(p => toPixel(p));
+  const routePath = route.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Locations ({sites.length} site{sites.length === 1 ? '' : 's'})
+      </h2>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto bg-gray-50"
+        role="img"
+        aria-label="Event locations"
+      >
+        {tiles.map(t => (
+          <image key={t.key} href={t.href} x={t.x} y={t.y} width={TILE_SIZE} height={TILE_SIZE} />
+        ))}
+        {gridLines.map(l => (
+          <g key={l.key}>
+            <line x1={l.x1} y1={l.y1} x2={l.x2} y2={l.y2} className="stroke-gray-200" strokeDasharray="2 3" />
+            {l.label && (
+              <text x={l.lx} y={l.ly} textAnchor={l.key === 'right' ? 'end' : 'start'} className="fill-gray-400 text-[10px]">
+                {l.label}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {route.length > 1 && (
+          <path d={routePath} fill="none" className="stroke-gray-400" strokeWidth={1} strokeDasharray="3 3" />
+        )}
+
+        {sites.map(site => {
+          const { x, y } = toPixel(site.position);
+          const latest = site.events[site.events.length - 1];
+          const config = typeConfig(latest.type);
+          const count = site.events.length;
+          return (
+            <g
+              key={`${site.position.lat},${site.position.lng}`}
+              onClick={onEventClick ? () => onEventClick(latest) : undefined}
+              className={onEventClick ? 'cursor-pointer' : undefined}
+            >
+              <circle cx={x} cy={y} r={count > 1 ? 9 : 6} fill={config.bgColor} stroke={config.color} strokeWidth={2} />
+              {count > 1 && (
+                <text x={x} y={y + 3} textAnchor="middle" className="text-[9px] font-semibold" fill={config.color}>
+                  {count}
+                </text>
+              )}
+              <title>{siteTitle(site)}</title>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 sm:px-6 py-2 border-t border-gray-100 text-xs text-gray-400">
+        <span>Marker colour = latest event at that site. Click to open it.</span>
+        {TILE_URL && TILE_ATTRIBUTION && <span>{TILE_ATTRIBUTION}</span>}
+      </div>
+    </div>
+  );
+}
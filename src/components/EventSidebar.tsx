@@ -1,4 +1,10 @@
-import { EVENT_TYPE_CONFIG } from './Timeline';
+import { Link } from 'react-router-dom';
+import { EventDocuments } from './EventDocuments';
+import { EventDetails } from './EventDetails';
+import { SignedImage } from './SignedImage';
+import { currentPictureUrl } from '../api/picture-urls';
+import { typeConfig } from '../lib/event-types';
+import { formatTimestamp, getEventUrl, getPicturesForEvent } from '../lib/event-format';
 import type { AssetEvent, PictureEvent } from '../types';
 
 interface EventSidebarProps {
@@ -8,35 +14,26 @@ interface EventSidebarProps {
   onClose: () => void;
 }
 
-// Format date as "25 Aug 2025" or "25 Aug 2025, 14:30"
-function formatDate(date: Date, includeTime: boolean): string {
-  const day = date.getDate();
-  const month = date.toLocaleDateString('en-US', { month: 'short' });
-  const year = date.getFullYear();
+// Order/invoice fields shown in their own block, in display order
+type OrderField =
+  | 'reference'
+  | 'manufacturerSalesOrder'
+  | 'customerSalesOrder'
+  | 'deliveryNumber'
+  | 'invoiceNumber'
+  | 'productionProductCode';
 
-  if (includeTime) {
-    const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-    return `${day} ${month} ${year}, ${time}`;
-  }
-  return `${day} ${month} ${year}`;
-}
-
-// Find pictures for an event
-function getPicturesForEvent(eventId: string, pictures?: PictureEvent[]): PictureEvent | undefined {
-  if (!pictures) return undefined;
-  return pictures.find(p => p.url.includes(eventId));
-}
-
-// Get Countroll web app URL for an event
-function getEventUrl(assetId: string, eventId: string): string {
-  return `https://app.countroll.com/#/thing/${assetId}/events/${eventId}`;
-}
+const ORDER_FIELDS: { key: OrderField; label: string }[] = [
+  { key: 'reference', label: 'Work order' },
+  { key: 'manufacturerSalesOrder', label: 'Sales order' },
+  { key: 'customerSalesOrder', label: 'Customer PO' },
+  { key: 'deliveryNumber', label: 'Delivery' },
+  { key: 'invoiceNumber', label: 'Invoice' },
+  { key: 'productionProductCode', label: 'Product code' },
+];
 
 export function EventSidebar({ event, pictures, assetId, onClose }: EventSidebarProps) {
-  const config = EVENT_TYPE_CONFIG[event.type];
-  const displayDate = new Date(event.creationDateTime);
-  const showTimeTypes = ['PICTURE', 'LINKED', 'UNLINKED', 'ENGRAVED', 'INITIALIZED', 'UNINITIALIZED'];
-  const formattedDate = formatDate(displayDate, showTimeTypes.includes(event.type));
+  const config = typeConfig(event.type);
   const pictureData = getPicturesForEvent(event.id, pictures);
   const eventUrl = getEventUrl(assetId, event.id);
 
@@ -79,55 +76,32 @@ export function EventSidebar({ event, pictures, assetId, onClose }: EventSidebar
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
-          {/* Date */}
-          <p className="text-sm text-gray-500 mb-4">{formattedDate}</p>
-
-          {/* Title */}
-          {event.title && (
-            <h2 className="text-lg font-semibold text-gray-900 mb-2">{event.title}</h2>
-          )}
+          {/* Date, title, comment, details */}
+          <EventDetails event={event} variant="full" />
 
-          {/* Description/Comment */}
-          {event.description && (
-            <div
-              className={`mb-4 ${
-                event.type === 'PICTURE'
-                  ? 'p-3 bg-amber-50 border-l-4 border-amber-400 rounded text-amber-900 font-medium'
-                  : 'text-gray-700'
-              }`}
-            >
-              {event.description}
+          {/* Order / delivery / invoice numbers (RECOVERED + REGRINDED) */}
+          {ORDER_FIELDS.some(f => event[f.key]) && (
+            <div className="space-y-2 mb-6">
+              <h3 className="text-sm font-medium text-gray-700">Order</h3>
+              {ORDER_FIELDS.filter(f => event[f.key]).map(f => (
+                <div key={f.key} className="flex justify-between text-sm">
+                  <span className="text-gray-500">{f.label}</span>
+                  {f.key === 'reference' ? (
+                    <Link
+                      to={`/wo/${encodeURIComponent(event.reference!)}`}
+                      className="font-medium tabular-nums text-[#1DB898] hover:text-[#189e83]"
+                      title="All assets in this work order"
+                    >
+                      {event.reference}
+                    </Link>
+                  ) : (
+                    <span className="text-gray-900 font-medium tabular-nums">{event[f.key]}</span>
+                  )}
+                </div>
+              ))}
             </div>
           )}
 
-          {/* Details */}
-          <div className="space-y-2 mb-6">
-            {event.diameter && (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Diameter</span>
-                <span className="text-gray-900 font-medium">{event.diameter} mm</span>
-              </div>
-            )}
-            {event.who && event.who !== 'service-account-datam-service-client' && (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-500">By</span>
-                <span className="text-gray-900 font-medium">{event.who}</span>
-              </div>
-            )}
-            {event.coverMaterial && (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Material</span>
-                <span className="text-gray-900 font-medium">{event.coverMaterial}</span>
-              </div>
-            )}
-            {event.coverHardness && (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Hardness</span>
-                <span className="text-gray-900 font-medium">{event.coverHardness}</span>
-              </div>
-            )}
-          </div>
-
           {/* Pictures */}
           {pictureData && pictureData.pictures.length > 0 && (
             <div className="mb-6">
@@ -138,13 +112,13 @@ export function EventSidebar({ event, pictures, assetId, onClose }: EventSidebar
                 {pictureData.pictures.map((pic, index) => (
                   <a
                     key={index}
-                    href={pic.downloadUrl}
+                    href={currentPictureUrl({ ...pic, assetId, eventId: event.id })}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="block aspect-square rounded-lg overflow-hidden border border-gray-200 hover:border-[#1DB898] transition-colors"
                   >
-                    <img
-                      src={pic.downloadUrl}
+                    <SignedImage
+                      picture={{ ...pic, assetId, eventId: event.id }}
                       alt={pic.fileName}
                       className="w-full h-full object-cover"
                     />
@@ -153,6 +127,32 @@ export function EventSidebar({ event, pictures, assetId, onClose }: EventSidebar
               </div>
             </div>
           )}
+
+          {/* Documents attached to the event (PDFs, reports, images) */}
+          <EventDocuments assetId={assetId} eventId={event.id} />
+
+          {/* Audit trail */}
+          <div className="space-y-2 mb-6">
+            <h3 className="text-sm font-medium text-gray-700">Audit</h3>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">State</span>
+              <span className={`font-medium ${event.state === 'HIDDEN' ? 'text-gray-500' : 'text-gray-900'}`}>
+                {event.state === 'HIDDEN' ? 'Hidden' : 'Visible'}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Created by</span>
+              <span className="text-gray-900 font-medium">{event.createdByUserId || '—'}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Last updated by</span>
+              <span className="text-gray-900 font-medium">{event.lastUpdatedByUserId || '—'}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Last updated</span>
+              <span className="text-gray-900 font-medium">{formatTimestamp(event.lastUpdatedDateTime)}</span>
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
@@ -1,5 +1,7 @@
 import { useState, useRef } from 'react';
-import { EVENT_TYPE_CONFIG, MAIN_EVENT_TYPES } from './Timeline';
+import { MAIN_EVENT_TYPES } from './Timeline';
+import { EVENT_TYPE_CONFIG } from '../lib/event-types';
+import { TIMELINE_GROUPINGS, type TimelineGrouping } from '../lib/timeline-grouping';
 import type { EventType } from '../types';
 
 interface FiltersProps {
@@ -9,6 +11,12 @@ interface FiltersProps {
   selectedYears: Set<number>;
   onYearsChange: (years: Set<number>) => void;
   onReset: () => void;
+  grouping: TimelineGrouping;
+  onGroupingChange: (grouping: TimelineGrouping) => void;
+  /** HIDDEN events on the asset; the toggle only shows when non-zero */
+  hiddenCount?: number;
+  showHidden?: boolean;
+  onShowHiddenChange?: (show: boolean) => void;
 }
 
 // Default selected types (for checking if filters are active)
@@ -21,6 +29,11 @@ export function Filters({
   selectedYears,
   onYearsChange,
   onReset,
+  grouping,
+  onGroupingChange,
+  hiddenCount = 0,
+  showHidden = false,
+  onShowHiddenChange,
 }: FiltersProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState<number | null>(null);
@@ -171,6 +184,33 @@ export function Filters({
           )}
         </div>
 
+        {/* Row grouping (a preference, so Reset leaves it alone) */}
+        <label className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Rows:</span>
+          <select
+            value={grouping}
+            onChange={e => onGroupingChange(e.target.value as TimelineGrouping)}
+            className="px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-[#1DB898]"
+          >
+            {TIMELINE_GROUPINGS.map(g => (
+              <option key={g.id} value={g.id}>{g.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {/* Audit: show HIDDEN events greyed out */}
+        {hiddenCount > 0 && onShowHiddenChange && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showHidden}
+              onChange={e => onShowHiddenChange(e.target.checked)}
+              className="accent-[#1DB898]"
+            />
+            Show hidden ({hiddenCount})
+          </label>
+        )}
+
         {/* Reset Button */}
         {hasActiveFilters && (
           <button
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { typeConfig } from '../lib/event-types';
+import type { AssetEvent } from '../types';
+
+interface OrdersTableProps {
+  events: AssetEvent[];
+  onEventClick?: (event: AssetEvent) => void;
+}
+
+type SortKey =
+  | 'creationDateTime'
+  | 'type'
+  | 'reference'
+  | 'manufacturerSalesOrder'
+  | 'customerSalesOrder'
+  | 'deliveryNumber'
+  | 'invoiceNumber'
+  | 'productionProductCode';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'creationDateTime', label: 'Date' },
+  { key: 'type', label: 'Service' },
+  { key: 'reference', label: 'Work order' },
+  { key: 'manufacturerSalesOrder', label: 'Sales order' },
+  { key: 'customerSalesOrder', label: 'Customer PO' },
+  { key: 'deliveryNumber', label: 'Delivery' },
+  { key: 'invoiceNumber', label: 'Invoice' },
+  { key: 'productionProductCode', label: 'Product code' },
+];
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function OrdersTable({ events, onEventClick }: OrdersTableProps) {
+  const [sort, setSort] = useState<SortKey>('creationDateTime');
+  const [ascending, setAscending] = useState(false);
+
+  const jobs = events.filter(e => e.type === 'RECOVERED' || e.type === 'REGRINDED');
+  if (jobs.length === 0) return null;
+
+  // Empty values sort last regardless of direction
+  const sorted = [...jobs].sort((a, b) => {
+    const av = a[sort] ?? '';
+    const bv = b[sort] ?? '';
+    if (!av && bv) return 1;
+    if (av && !bv) return -1;
+    const cmp = String(av).localeCompare(String(bv), undefined, { numeric: true });
+    return ascending ? cmp : -cmp;
+  });
+
+  function header(label: string, key: SortKey) {
+    const active = sort === key;
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          if (active) {
+            setAscending(a => !a);
+          } else {
+            setSort(key);
+            setAscending(key !== 'creationDateTime');
+          }
+        }}
+        className={`text-xs uppercase tracking-wide whitespace-nowrap ${
+          active ? 'text-[#1DB898] font-semibold' : 'text-gray-500 hover:text-gray-700'
+        }`}
+      >
+        {label}{active ? (ascending ? ' ↑' : ' ↓') : ''}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Orders ({jobs.length})
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {COLUMNS.map(col => (
+                <th key={col.key} className="px-4 py-2 text-left">{header(col.label, col.key)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(e => {
+              const config = typeConfig(e.type);
+              return (
+                <tr
+                  key={e.id}
+                  onClick={onEventClick ? () => onEventClick(e) : undefined}
+                  className={`border-t border-gray-100 ${onEventClick ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{formatDay(e.creationDateTime)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap font-medium" style={{ color: config.color }}>
+                    {config.icon} {config.label}
+                  </td>
+                  <td className="px-4 py-2 tabular-nums">
+                    {e.reference ? (
+                      <Link
+                        to={`/wo/${encodeURIComponent(e.reference)}`}
+                        onClick={ev => ev.stopPropagation()}
+                        className="text-[#1DB898] hover:text-[#189e83]"
+                      >
+                        {e.reference}
+                      </Link>
+                    ) : '—'}
+                  </td>
+                  <td className="px-4 py-2 tabular-nums">{e.manufacturerSalesOrder || '—'}</td>
+                  <td className="px-4 py-2 tabular-nums">{e.customerSalesOrder || '—'}</td>
+                  <td className="px-4 py-2 tabular-nums">{e.deliveryNumber || '—'}</td>
+                  <td className="px-4 py-2 tabular-nums">{e.invoiceNumber || '—'}</td>
+                  <td className="px-4 py-2 tabular-nums text-gray-600">{e.productionProductCode || '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { formatDuration } from '../lib/service-intervals';
+import { formatRelationship, HANNECARD_THIRD_PARTY_ID, type PartnerLabel, type ThirdPartyPeriod } from '../lib/ownership';
+
+interface OwnershipPanelProps {
+  periods: ThirdPartyPeriod[];
+  partnerLabels: PartnerLabel[];
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function OwnershipPanel({ periods, partnerLabels }: OwnershipPanelProps) {
+  if (periods.length === 0 && partnerLabels.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Ownership
+      </h2>
+      {periods.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="px-4 py-2 text-left">Third party</th>
+                <th className="px-4 py-2 text-left">Relationship</th>
+                <th className="px-4 py-2 text-left">From</th>
+                <th className="px-4 py-2 text-left">To</th>
+                <th className="px-4 py-2 text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map((p, i) => (
+                <tr key={`${p.thirdPartyId}-${p.relationship}-${i}`} className="border-t border-gray-100">
+                  <td className="px-4 py-2">
+                    <span className="font-medium text-gray-900">{p.name}</span>
+                    {p.thirdPartyId === HANNECARD_THIRD_PARTY_ID && (
+                      <span className="ml-2 text-xs text-gray-400">Hannecard</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                        p.relationship === 'OWNER' ? 'bg-sky-100 text-sky-800' : 'bg-stone-100 text-stone-700'
+                      }`}
+                    >
+                      {formatRelationship(p.relationship)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{formatDay(p.from)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                    {p.to ? formatDay(p.to) : <span className="text-[#1DB898] font-medium">present</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums text-gray-600">{formatDuration(p.days)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {partnerLabels.length > 0 && (
+        <div className={`px-4 sm:px-6 py-3 ${periods.length > 0 ? 'border-t border-gray-200' : ''}`}>
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Partner labels</h3>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            {partnerLabels.map(l => (
+              <div key={l.thirdPartyId} className="contents">
+                <dt className="text-gray-500">{l.name}</dt>
+                <dd className="font-medium text-gray-900">{l.label}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
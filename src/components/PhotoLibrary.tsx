@@ -1,13 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { PictureEvent } from '../types';
 import { PhotoViewer } from './PhotoViewer';
+import { SignedImage } from './SignedImage';
 
 interface PhotoLibraryProps {
   pictures: PictureEvent[];
+  assetId: string;
   onClose: () => void;
 }
 
-export function PhotoLibrary({ pictures, onClose }: PhotoLibraryProps) {
+export function PhotoLibrary({ pictures, assetId, onClose }: PhotoLibraryProps) {
   const [viewerIndex, setViewerIndex] = useState<number | null>(null);
 
   useEffect(() => {
@@ -95,8 +97,8 @@ export function PhotoLibrary({ pictures, onClose }: PhotoLibraryProps) {
                           setViewerIndex(flatIndex);
                         }}
                       >
-                        <img
-                          src={photo.downloadUrl}
+                        <SignedImage
+                          picture={{ ...photo, assetId }}
                           alt={photo.fileName}
                           className="w-full h-full object-cover"
                           loading="lazy"
@@ -114,6 +116,7 @@ export function PhotoLibrary({ pictures, onClose }: PhotoLibraryProps) {
       {viewerIndex !== null && (
         <PhotoViewer
           photos={displayPhotos}
+          assetId={assetId}
           currentIndex={viewerIndex}
           onClose={() => setViewerIndex(null)}
           onNavigate={setViewerIndex}
@@ -1,14 +1,16 @@
 import { useEffect, useCallback } from 'react';
 import type { Picture } from '../types';
+import { SignedImage } from './SignedImage';
 
 interface PhotoViewerProps {
   photos: (Picture & { eventId: string })[];
+  assetId: string;
   currentIndex: number;
   onClose: () => void;
   onNavigate: (index: number) => void;
 }
 
-export function PhotoViewer({ photos, currentIndex, onClose, onNavigate }: PhotoViewerProps) {
+export function PhotoViewer({ photos, assetId, currentIndex, onClose, onNavigate }: PhotoViewerProps) {
   const photo = photos[currentIndex];
   const hasPrev = currentIndex > 0;
   const hasNext = currentIndex < photos.length - 1;
@@ -64,8 +66,8 @@ export function PhotoViewer({ photos, currentIndex, onClose, onNavigate }: Photo
           </button>
         )}
 
-        <img
-          src={photo.downloadUrl}
+        <SignedImage
+          picture={{ ...photo, assetId }}
           alt={photo.fileName}
           className="max-w-full max-h-full object-contain"
         />
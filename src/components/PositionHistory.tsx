@@ -0,0 +1,45 @@
+import { formatDuration } from '../lib/service-intervals';
+import type { PositionSummary } from '../lib/positions';
+
+interface PositionHistoryProps {
+  summaries: PositionSummary[];
+}
+
+export function PositionHistory({ summaries }: PositionHistoryProps) {
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Positions
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+            <tr>
+              <th className="px-4 py-2 text-left">Position</th>
+              <th className="px-4 py-2 text-right">Installs</th>
+              <th className="px-4 py-2 text-right">Time installed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(s => (
+              <tr key={s.positionId} className="border-t border-gray-100">
+                <td className="px-4 py-2">
+                  <span className="font-medium text-gray-900">{s.positionName}</span>
+                  {s.installed && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-cyan-100 text-cyan-800">
+                      installed
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">{s.stints}</td>
+                <td className="px-4 py-2 text-right tabular-nums text-gray-600">{formatDuration(s.totalDays)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  ESTIMATED_MIN_COVER_THICKNESS_MM,
+  type RemainingLife as RemainingLifeEstimate,
+  type MinDiameterSource,
+} from '../lib/remaining-life';
+
+interface RemainingLifeProps {
+  estimate: RemainingLifeEstimate;
+}
+
+const SOURCE_LABELS: Record<MinDiameterSource, string> = {
+  customType: 'custom type limit',
+  type: 'asset type limit',
+  coreEstimate: `estimate: core + ${ESTIMATED_MIN_COVER_THICKNESS_MM} mm rubber per side`,
+};
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function Row({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-gray-500">{label}</span>
+      <span className="text-gray-900 font-medium text-right">
+        {value}
+        {hint && <span className="block text-xs font-normal text-gray-400">{hint}</span>}
+      </span>
+    </div>
+  );
+}
+
+export function RemainingLife({ estimate }: RemainingLifeProps) {
+  if (estimate.currentDiameter === null) return null;
+
+  const { minDiameter, avgRemovedPerRegrind, regrindsLeft, recoverDue } = estimate;
+  const atLimit = regrindsLeft === 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Remaining cover life
+      </h2>
+      <div className="px-4 sm:px-6 py-3 space-y-2">
+        <Row
+          label="Current diameter"
+          value={`${estimate.currentDiameter} mm`}
+          hint={estimate.currentDiameterAt ? `measured ${formatDay(estimate.currentDiameterAt)}` : undefined}
+        />
+        <Row
+          label="Minimum diameter"
+          value={minDiameter ? `${minDiameter.source === 'coreEstimate' ? '~ ' : ''}${minDiameter.value} mm` : 'Not configured'}
+          hint={minDiameter ? SOURCE_LABELS[minDiameter.source] : undefined}
+        />
+        <Row
+          label="Removed per regrind"
+          value={avgRemovedPerRegrind !== null ? `${avgRemovedPerRegrind.toFixed(1)} mm` : '—'}
+          hint={estimate.sampleCount > 0 ? `avg of ${estimate.sampleCount} regrind${estimate.sampleCount === 1 ? '' : 's'}` : undefined}
+        />
+        <Row
+          label="Regrinds left"
+          value={regrindsLeft !== null ? String(regrindsLeft) : '—'}
+        />
+        <Row
+          label="Recover needed"
+          value={atLimit ? 'Next service' : recoverDue ? `~ ${formatDay(recoverDue)}` : '—'}
+        />
+      </div>
+      {(minDiameter === null || minDiameter.source === 'coreEstimate' || avgRemovedPerRegrind === null) && (
+        <p className="px-4 sm:px-6 py-2 border-t border-gray-100 text-xs text-gray-400">
+          {minDiameter === null
+            ? 'No minimum cover diameter is configured for this asset type. Add one to VITE_MIN_COVER_DIAMETERS to estimate remaining life.'
+            : avgRemovedPerRegrind === null
+              ? 'Needs at least one regrind with diameter readings before and after.'
+              : 'No minimum is configured for this asset type, so regrinds left are estimated from the core diameter. Add one to VITE_MIN_COVER_DIAMETERS.'}
+        </p>
+      )}
+    </div>
+  );
+}
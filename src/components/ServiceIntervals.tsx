@@ -0,0 +1,74 @@
+import { EVENT_TYPE_CONFIG } from '../lib/event-types';
+import { formatDuration, type ServiceIntervalStats } from '../lib/service-intervals';
+
+interface ServiceIntervalsProps {
+  stats: ServiceIntervalStats[];
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function ServiceIntervals({ stats }: ServiceIntervalsProps) {
+  const rows = stats.filter(s => s.count > 0);
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+        Service intervals
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+            <tr>
+              <th className="px-4 py-2 text-left">Service</th>
+              <th className="px-4 py-2 text-right">Count</th>
+              <th className="px-4 py-2 text-right">Mean</th>
+              <th className="px-4 py-2 text-right">Median</th>
+              <th className="px-4 py-2 text-right">Spread</th>
+              <th className="px-4 py-2 text-right">Since last</th>
+              <th className="px-4 py-2 text-right">Next due</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(s => {
+              const config = EVENT_TYPE_CONFIG[s.type];
+              return (
+                <tr key={s.type} className="border-t border-gray-100">
+                  <td className="px-4 py-2 font-medium" style={{ color: config.color }}>
+                    {config.icon} {config.label}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">{s.count}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">
+                    {s.meanDays !== null ? formatDuration(s.meanDays) : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">
+                    {s.medianDays !== null ? formatDuration(s.medianDays) : '—'}
+                  </td>
+                  <td
+                    className="px-4 py-2 text-right tabular-nums text-gray-600"
+                    title={s.stdDevDays !== null ? `σ ${formatDuration(s.stdDevDays)}` : undefined}
+                  >
+                    {s.minDays !== null && s.maxDays !== null
+                      ? `${formatDuration(s.minDays)} – ${formatDuration(s.maxDays)}`
+                      : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums text-gray-600">
+                    {s.daysSinceLast !== null ? formatDuration(s.daysSinceLast) : '—'}
+                  </td>
+                  <td className={`px-4 py-2 text-right tabular-nums ${s.overdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                    {s.nextDue ? `${formatDay(s.nextDue)}${s.overdue ? ' (overdue)' : ''}` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 sm:px-6 py-2 border-t border-gray-100 text-xs text-gray-400">
+        Projections use the mean interval between past services of the same type.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState, type ImgHTMLAttributes } from 'react';
+import { currentPictureUrl, pictureKey, refreshPictureUrl, type PictureRef } from '../api/picture-urls';
+import { signedUrlExpiry } from '../lib/signed-url';
+
+interface SignedImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'onError'> {
+  picture: PictureRef;
+}
+
+// Refresh this long before a URL's expiry, so it never lapses on screen
+const REFRESH_MARGIN_MS = 15_000;
+// Floor between refreshes of an already refreshed URL, in case the API
+// hands out URLs that live shorter than the margin
+const MIN_REFRESH_INTERVAL_MS = 10_000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * An <img> for a signed picture URL. When the URL fails to load (usually
+ * because it expired) it is re-resolved through the API once; failing again
+ * before any successful load means the image is gone. URLs that carry an
+ * expiry are refreshed shortly before it.
+ */
+export function SignedImage({ picture, alt, className, onLoad, ...imgProps }: SignedImageProps) {
+  const { assetId, eventId, fileName, documentName, downloadUrl } = picture;
+  const key = pictureKey(picture);
+  const [refreshed, setRefreshed] = useState<{ key: string; url: string } | null>(null);
+  const [failedKey, setFailedKey] = useState<string | null>(null);
+  // Pictures that were re-resolved after a load error and haven't loaded
+  // since; another error for one of these means give up
+  const retriedKeys = useRef(new Set<string>());
+
+  const isRefreshed = refreshed?.key === key;
+  const src = isRefreshed ? refreshed.url : currentPictureUrl(picture);
+
+  // After a load error a failed refresh is final; ahead of expiry we just
+  // keep the current URL and let onError have another go
+  const refresh = useCallback((staleUrl: string, afterError: boolean) => {
+    refreshPictureUrl({ assetId, eventId, fileName, documentName, downloadUrl })
+      .then(url => {
+        if (url && url !== staleUrl) setRefreshed({ key, url });
+        else if (afterError) setFailedKey(key);
+      })
+      .catch(() => {
+        if (afterError) setFailedKey(key);
+      });
+  }, [assetId, eventId, fileName, documentName, downloadUrl, key]);
+
+  // Proactive refresh ahead of the URL's expiry
+  useEffect(() => {
+    const expiry = signedUrlExpiry(src);
+    if (!expiry) return;
+    const floor = isRefreshed ? MIN_REFRESH_INTERVAL_MS : 0;
+    const delay = Math.min(Math.max(floor, expiry.getTime() - Date.now() - REFRESH_MARGIN_MS), MAX_TIMER_MS);
+    const timer = setTimeout(() => refresh(src, false), delay);
+    return () => clearTimeout(timer);
+  }, [src, isRefreshed, refresh]);
+
+  if (failedKey === key) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 text-xs text-gray-400 ${className ?? ''}`}>
+        Image unavailable
+      </div>
+    );
+  }
+
+  return (
+    <img
+      {...imgProps}
+      src={src}
+      alt={alt}
+      className={className}
+      onLoad={e => {
+        retriedKeys.current.delete(key);
+        onLoad?.(e);
+      }}
+      onError={() => {
+        if (retriedKeys.current.has(key)) {
+          setFailedKey(key);
+        } else {
+          retriedKeys.current.add(key);
+          refresh(src, true);
+        }
+      }}
+    />
+  );
+}
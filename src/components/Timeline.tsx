@@ -3,6 +3,24 @@ import { createPortal } from 'react-dom';
 import { Timeline as VisTimeline } from 'vis-timeline/standalone';
 import { DataSet } from 'vis-data/standalone';
 import type { AssetEvent, EventType, PictureEvent } from '../types';
+import type { ServiceIntervalStats } from '../lib/service-intervals';
+import { getCoverLifecycles, coverLabel, type CoverLife } from '../lib/cover-lifecycle';
+import type { PositionStint } from '../lib/positions';
+import { formatRelationship, type ThirdPartyPeriod } from '../lib/ownership';
+import { EVENT_TYPE_CONFIG, fallbackEventConfig, isKnownEventType, typeConfig } from '../lib/event-types';
+import { formatDate, getEventUrl, getPicturesForEvent } from '../lib/event-format';
+import { eventRow, type TimelineGrouping } from '../lib/timeline-grouping';
+import {
+  itemsRange,
+  presetWindow,
+  timelineBounds,
+  ZOOM_MIN_MS,
+  ZOOM_PRESETS,
+  type TimeRange,
+  type ZoomPreset,
+} from '../lib/timeline-range';
+import { EventDetails } from './EventDetails';
+import { SignedImage } from './SignedImage';
 
 // Import vis-timeline CSS
 import 'vis-timeline/styles/vis-timeline-graph2d.css';
@@ -13,25 +31,36 @@ interface TimelineProps {
   assetId: string;
   selectedYears?: Set<number>;
   onEventClick?: (event: AssetEvent) => void;
+  /** Service stats whose `nextDue` is drawn as a dashed future marker */
+  projections?: ServiceIntervalStats[];
+  /** Installation stints drawn as ranges on the POSITION row */
+  positionStints?: PositionStint[];
+  /** Events with data-quality issues, highlighted on the timeline */
+  flaggedEventIds?: Set<string>;
+  /** Owner and service links drawn as ranges on an OWNERSHIP row */
+  ownershipPeriods?: ThirdPartyPeriod[];
+  /** What the rows are; by event type unless set */
+  grouping?: TimelineGrouping;
+  /** Every visible event of the asset, unfiltered. Cover lifecycles are
+   * built from these so a filter can't cut a cover's life short. */
+  coverEvents?: AssetEvent[];
+  /** Span the scroll bounds must cover besides this timeline's own items.
+   * Applied in place when it changes, without rebuilding the timeline. */
+  extent?: TimeRange;
+  /** Window to open on, instead of fitting the events */
+  initialWindow?: TimeRange | null;
+  /** Visible window to follow, for timelines kept in sync */
+  viewWindow?: TimeRange | null;
+  /** Called when the user pans or zooms */
+  onViewWindowChange?: (window: TimeRange) => void;
 }
 
-// Event type display configuration
-export const EVENT_TYPE_CONFIG: Record<EventType, { label: string; icon: string; color: string; bgColor: string; group?: string }> = {
-  RECOVERED: { label: 'Recovered', icon: '▲', color: '#16a34a', bgColor: '#dcfce7' },
-  REGRINDED: { label: 'Regrinded', icon: '▼', color: '#dc2626', bgColor: '#fee2e2' },
-  PICTURE: { label: 'Picture', icon: '📷', color: '#9333ea', bgColor: '#f3e8ff' },
-  ENGRAVED: { label: 'Engraved', icon: '✒', color: '#ea580c', bgColor: '#ffedd5' },
-  INITIALIZED: { label: 'Initialized', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
-  UNINITIALIZED: { label: 'Uninitialized', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
-  LINKED: { label: 'Linked', icon: '🔗', color: '#0891b2', bgColor: '#cffafe', group: 'POSITION' },
-  UNLINKED: { label: 'Unlinked', icon: '🔗', color: '#64748b', bgColor: '#e2e8f0', group: 'POSITION' },
-  ROLLER_LINKED_TO_WO: { label: 'Linked to WO', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
-  OTHER: { label: 'Other', icon: '★', color: '#0f766e', bgColor: '#ccfbf1' },
-};
-
 // Main event types to show in filters (order matters for display)
 export const MAIN_EVENT_TYPES: EventType[] = ['RECOVERED', 'REGRINDED', 'PICTURE', 'OTHER', 'LINKED', 'UNLINKED', 'ENGRAVED'];
 
+// Row for owner/service link ranges; not tied to an event type
+const OWNERSHIP_GROUP_ID = 'OWNERSHIP';
+
 // Static groups for timeline rows (order matters)
 // RECOVERED is handled dynamically — split by coverMaterial
 export const TIMELINE_GROUPS = [
@@ -42,129 +71,11 @@ export const TIMELINE_GROUPS = [
   { id: 'OTHER', types: ['OTHER'] },
 ];
 
-// Get Countroll web app URL for an event
-function getEventUrl(assetId: string, eventId: string): string {
-  return `https://app.countroll.com/#/thing/${assetId}/events/${eventId}`;
-}
-
-// Find pictures for an event
-function getPicturesForEvent(eventId: string, pictures?: PictureEvent[]): PictureEvent | undefined {
-  if (!pictures) return undefined;
-  return pictures.find(p => p.url.includes(eventId));
-}
-
-// Format date as "25 Aug 2025" or "25 Aug 2025, 14:30"
-function formatDate(date: Date, includeTime: boolean): string {
-  const day = date.getDate();
-  const month = date.toLocaleDateString('en-US', { month: 'short' });
-  const year = date.getFullYear();
-
-  if (includeTime) {
-    const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-    return `${day} ${month} ${year}, ${time}`;
-  }
-  return `${day} ${month} ${year}`;
-}
-
-// Format tooltip content
-function formatTooltip(
-  event: AssetEvent,
-  assetId: string,
-  pictures?: PictureEvent[]
-): string {
-  const displayDate = new Date(event.creationDateTime);
-
-  // For REGRINDED and RECOVERED, show date only; for others include time
-  const showTimeTypes = ['PICTURE', 'LINKED', 'UNLINKED', 'ENGRAVED', 'INITIALIZED', 'UNINITIALIZED'];
-  const date = formatDate(displayDate, showTimeTypes.includes(event.type));
-
-  const config = EVENT_TYPE_CONFIG[event.type];
-  const lines: string[] = [];
-
-  // Header with colored badge
-  lines.push(`
-    <div style="margin-bottom: 8px;">
-      <span style="
-        display: inline-block;
-        padding: 2px 8px;
-        border-radius: 4px;
-        font-size: 11px;
-        font-weight: 600;
-        background-color: ${config.bgColor};
-        color: ${config.color};
-        border: 1px solid ${config.color};
-      ">${config.label}</span>
-    </div>
-  `);
-
-  // Title
-  if (event.title) {
-    lines.push(`<div style="font-weight: 600; font-size: 14px; margin-bottom: 4px;">${event.title}</div>`);
-  }
-
-  // Date
-  lines.push(`<div style="color: #6b7280; font-size: 12px; margin-bottom: 8px;">${date}</div>`);
-
-  // Description - make it prominent for PICTURE events (contains the comment)
-  if (event.description) {
-    if (event.type === 'PICTURE' || event.type === 'OTHER') {
-      lines.push(`<mark>${event.description}</mark>`);
-    } else {
-      lines.push(`<div>${event.description}</div>`);
-    }
-  }
-
-  // Details grid
-  const details: string[] = [];
-  if ((event.type === 'RECOVERED' || event.type === 'REGRINDED') && event.reference) {
-    details.push(`<div><span style="color: #6b7280;">Work Order:</span> ${event.reference}</div>`);
-  }
-  if (event.diameter) {
-    details.push(`<div><span style="color: #6b7280;">Diameter:</span> ${event.diameter} mm</div>`);
-  }
-  if (event.who && event.who !== 'service-account-datam-service-client') {
-    details.push(`<div><span style="color: #6b7280;">By:</span> ${event.who}</div>`);
-  }
-  if (event.coverMaterial) {
-    details.push(`<div><span style="color: #6b7280;">Material:</span> ${event.coverMaterial}</div>`);
-  }
-  if (event.coverHardness) {
-    details.push(`<div><span style="color: #6b7280;">Hardness:</span> ${event.coverHardness}</div>`);
-  }
-
-  if (details.length > 0) {
-    lines.push(`<div style="font-size: 12px; line-height: 1.6;">${details.join('')}</div>`);
-  }
-
-  // Pictures for PICTURE events
-  if (event.type === 'PICTURE') {
-    const pictureData = getPicturesForEvent(event.id, pictures);
-    if (pictureData && pictureData.pictures.length > 0) {
-      lines.push(`<div style="margin-top: 8px; display: grid; grid-template-columns: repeat(3, 1fr); gap: 4px;">`);
-      pictureData.pictures.slice(0, 6).forEach(pic => {
-        lines.push(`
-          <img
-            src="${pic.downloadUrl}"
-            alt="${pic.fileName}"
-            style="width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: 4px; border: 1px solid #e5e7eb;"
-          />
-        `);
-      });
-      if (pictureData.pictures.length > 6) {
-        lines.push(`<div style="display: flex; align-items: center; justify-content: center; color: #6b7280; font-size: 12px; aspect-ratio: 1; background: #f3f4f6; border-radius: 4px;">+${pictureData.pictures.length - 6}</div>`);
-      }
-      lines.push(`</div>`);
-    }
-  }
-
-  return lines.join('');
-}
-
 // Get unique materials from RECOVERED events
 function getRecoveredMaterials(events: AssetEvent[]): string[] {
   const materials = new Set<string>();
   for (const e of events) {
-    if (e.type === 'RECOVERED' && e.state === 'VISIBLE') {
+    if (e.type === 'RECOVERED') {
       materials.add(e.coverMaterial || 'Unknown');
     }
   }
@@ -182,10 +93,29 @@ function groupLabel(icon: string, text: string, color: string): string {
 }
 
 // Create groups for timeline rows
-function createGroups(eventTypes: Set<string>, events: AssetEvent[]) {
-  const groups: { id: string; content: string; style: string; order: number }[] = [];
+interface TimelineGroup {
+  id: string;
+  content: string | HTMLElement;
+  style: string;
+  order: number;
+}
+
+// Who owned/serviced the roller, above everything that happened to it
+function ownershipGroup(order: number): TimelineGroup {
+  return {
+    id: OWNERSHIP_GROUP_ID,
+    content: groupLabel('⚑', 'Ownership', '#0284c7'),
+    style: 'border-left: 3px solid #0284c7;',
+    order,
+  };
+}
+
+function createGroups(eventTypes: Set<string>, events: AssetEvent[], showOwnership: boolean) {
+  const groups: TimelineGroup[] = [];
   let order = 0;
 
+  if (showOwnership) groups.push(ownershipGroup(order++));
+
   // Dynamic RECOVERED groups by material
   if (eventTypes.has('RECOVERED')) {
     const config = EVENT_TYPE_CONFIG.RECOVERED;
@@ -214,9 +144,65 @@ function createGroups(eventTypes: Set<string>, events: AssetEvent[]) {
     });
   }
 
+  // One row per event type we don't know yet, after the known rows
+  for (const type of Array.from(eventTypes).filter(t => !isKnownEventType(t)).sort()) {
+    const config = fallbackEventConfig(type);
+    groups.push({
+      id: type,
+      content: groupLabel(config.icon, config.label, config.color),
+      style: `border-left: 3px solid ${config.color};`,
+      order: order++,
+    });
+  }
+
   return groups;
 }
 
+// Row id for an author/device/position/flat row
+function rowGroupId(key: string): string {
+  return `row:${key}`;
+}
+
+// Rows for any grouping other than by type, in order of each row's first
+// event. Labels are user data (names, device ids), so they're built as text
+// nodes; the icons show which event types the row holds.
+function createRowGroups(
+  events: AssetEvent[],
+  grouping: Exclude<TimelineGrouping, 'type'>,
+  stints: PositionStint[],
+  showOwnership: boolean,
+): TimelineGroup[] {
+  const rows = new Map<string, { label: string; types: Set<string> }>();
+  const sorted = [...events].sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+  for (const event of sorted) {
+    const { key, label } = eventRow(event, grouping, stints);
+    const row = rows.get(key) ?? { label, types: new Set<string>() };
+    row.types.add(event.type);
+    rows.set(key, row);
+  }
+
+  const first = showOwnership ? 1 : 0;
+  const groups = Array.from(rows.entries()).map(([key, row], i) => {
+    const content = document.createElement('span');
+    content.textContent = `${row.label} `;
+    for (const type of row.types) {
+      const config = typeConfig(type);
+      const icon = document.createElement('span');
+      icon.style.color = config.color;
+      icon.title = config.label;
+      icon.textContent = config.icon;
+      content.appendChild(icon);
+    }
+    return {
+      id: rowGroupId(key),
+      content,
+      style: 'border-left: 3px solid #9ca3af;',
+      order: first + i,
+    };
+  });
+  return showOwnership ? [ownershipGroup(0), ...groups] : groups;
+}
+
 // Get the group ID for an event
 function getGroupForEvent(event: AssetEvent): string {
   if (event.type === 'RECOVERED') {
@@ -226,45 +212,275 @@ function getGroupForEvent(event: AssetEvent): string {
   return group ? group.id : event.type;
 }
 
-// Convert API events to vis-timeline items (no title — we use a custom tooltip portal)
-function eventsToTimelineItems(events: AssetEvent[]) {
+// Convert API events to vis-timeline items (no title — we use a custom tooltip portal).
+// RECOVERED events are drawn as cover lifecycle bands instead of points.
+// With another grouping, `groupFor` picks the row and recovers are boxes too.
+// Hidden events (only passed in when shown) are always boxes, greyed out.
+function eventsToTimelineItems(events: AssetEvent[], groupFor?: (event: AssetEvent) => string) {
   return events
-    .filter(event => event.state === 'VISIBLE' && EVENT_TYPE_CONFIG[event.type])
+    .filter(event => groupFor || event.type !== 'RECOVERED' || event.state === 'HIDDEN')
     .map(event => {
-      const config = EVENT_TYPE_CONFIG[event.type];
+      const config = typeConfig(event.type);
       return {
         id: event.id,
-        group: getGroupForEvent(event),
+        group: groupFor ? groupFor(event) : getGroupForEvent(event),
         content: `<span class="event-icon-only">${config.icon}</span>`,
         start: new Date(event.creationDateTime),
         type: 'box' as const,
-        className: `event-${event.type.toLowerCase()} event-clickable`,
+        className: `${isKnownEventType(event.type) ? `event-${event.type.toLowerCase()}` : 'event-unknown'} event-clickable${event.state === 'HIDDEN' ? ' event-hidden' : ''}`,
       };
     });
 }
 
+// Item id for a regrind drawn inside its cover's band
+function coverRegrindItemId(recoverId: string, regrindId: string): string {
+  return `cover:${recoverId}:${regrindId}`;
+}
+
+// One range per cover, from its RECOVERED event to the next (or to now for
+// the fitted cover), with that cover's regrinds nested inside the band.
+// The band keeps the RECOVERED event id so tooltip + click behave as before.
+// Lifecycles come from the unfiltered events; only covers whose recover is
+// in `shownIds` are drawn, with just the shown regrinds inside.
+function coverLifecyclesToTimelineItems(lives: CoverLife[], shownIds: Set<string>, now: Date) {
+  const recoverConfig = EVENT_TYPE_CONFIG.RECOVERED;
+  const regrindConfig = EVENT_TYPE_CONFIG.REGRINDED;
+
+  return lives.filter(life => shownIds.has(life.recover.id)).flatMap(life => {
+    const group = getRecoveredGroupId(life.recover.coverMaterial);
+    const regrinds = life.regrinds.length;
+    const band = {
+      id: life.recover.id,
+      group,
+      content: `<span style="color:${recoverConfig.color}">${recoverConfig.icon}</span> ${coverLabel(life.recover)}${regrinds > 0 ? ` <span class="cover-band-count">${regrinds}× ${regrindConfig.icon}</span>` : ''}`,
+      start: life.start,
+      end: life.end ?? now,
+      type: 'range' as const,
+      className: `cover-band event-clickable${life.end ? '' : ' cover-band-current'}`,
+    };
+    const nested = life.regrinds.filter(regrind => shownIds.has(regrind.id)).map(regrind => ({
+      id: coverRegrindItemId(life.recover.id, regrind.id),
+      group,
+      content: `<span class="event-icon-only">${regrindConfig.icon}</span>`,
+      start: new Date(regrind.creationDateTime),
+      type: 'box' as const,
+      className: 'cover-regrind event-clickable',
+    }));
+    return [band, ...nested];
+  });
+}
+
+// Item id for an installation stint range
+function positionItemId(stint: PositionStint): string {
+  return `position:${stint.linked.id}`;
+}
+
+// "Installed at X" ranges on the POSITION row. Open stints run to now.
+function positionStintsToTimelineItems(stints: PositionStint[], now: Date) {
+  return stints.map(stint => ({
+    id: positionItemId(stint),
+    group: 'POSITION',
+    content: stint.positionName,
+    start: stint.start,
+    end: stint.end ?? now,
+    type: 'range' as const,
+    className: `position-stint event-clickable${stint.end ? '' : ' position-stint-open'}`,
+  }));
+}
+
+// Item id for an ownership link range
+function ownershipItemId(index: number): string {
+  return `ownership:${index}`;
+}
+
+// Owner/service link ranges on the OWNERSHIP row. Open links run to now.
+function ownershipPeriodsToTimelineItems(periods: ThirdPartyPeriod[], now: Date) {
+  return periods.map((period, i) => ({
+    id: ownershipItemId(i),
+    group: OWNERSHIP_GROUP_ID,
+    content: period.name,
+    start: period.from,
+    end: period.to ?? now,
+    type: 'range' as const,
+    className: `ownership-band ${period.relationship === 'OWNER' ? 'ownership-owner' : 'ownership-other'}${period.to ? '' : ' ownership-current'}`,
+  }));
+}
+
+// Dashed future markers for projected services. Placed in the row of the
+// service type; a projected recover goes in the row of the current cover.
+function projectionsToTimelineItems(projections: ServiceIntervalStats[], events: AssetEvent[]) {
+  const lastRecovered = events
+    .filter(e => e.type === 'RECOVERED')
+    .sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime))
+    .pop();
+
+  return projections
+    .filter(p => p.nextDue)
+    .map(p => {
+      const config = EVENT_TYPE_CONFIG[p.type];
+      return {
+        id: `projection:${p.type}`,
+        group: p.type === 'RECOVERED' ? getRecoveredGroupId(lastRecovered?.coverMaterial) : p.type,
+        content: `<span class="event-icon-only">${config.icon}</span>`,
+        start: p.nextDue!,
+        type: 'box' as const,
+        className: `event-projected event-projected-${p.type.toLowerCase()}`,
+      };
+    });
+}
+
+// Keyboard steps: pan by this share of the visible window, zoom by this factor
+const PAN_FRACTION = 0.2;
+const ZOOM_STEP = 0.5;
+
+// Scroll limits for the items, widened to the shared extent if any
+function scrollBounds(itemsSpan: TimeRange, extent: TimeRange | null): TimeRange {
+  if (!extent) return timelineBounds(itemsSpan);
+  return timelineBounds({
+    start: new Date(Math.min(itemsSpan.start.getTime(), extent.start.getTime())),
+    end: new Date(Math.max(itemsSpan.end.getTime(), extent.end.getTime())),
+  });
+}
+
+// Windows within a millisecond of each other are the same window
+function sameWindow(a: TimeRange, b: TimeRange): boolean {
+  return Math.abs(a.start.getTime() - b.start.getTime()) <= 1 && Math.abs(a.end.getTime() - b.end.getTime()) <= 1;
+}
+
+// What the hovered item is; the tooltip renders from this, never from HTML
+type TooltipContent =
+  | { kind: 'event'; event: AssetEvent }
+  | { kind: 'projection'; stats: ServiceIntervalStats }
+  | { kind: 'ownership'; period: ThirdPartyPeriod };
+
+// Coloured label at the top of a tooltip
+function TooltipBadge({ label, color, bgColor = 'white', dashed = false }: {
+  label: string;
+  color: string;
+  bgColor?: string;
+  dashed?: boolean;
+}) {
+  return (
+    <div className="mb-2">
+      <span
+        className="inline-block px-2 py-0.5 rounded text-[11px] font-semibold"
+        style={{ backgroundColor: bgColor, color, border: `1px ${dashed ? 'dashed' : 'solid'} ${color}` }}
+      >
+        {label}
+      </span>
+    </div>
+  );
+}
+
+function TimelineTooltip({ content, assetId, pictures }: {
+  content: TooltipContent;
+  assetId: string;
+  pictures?: PictureEvent[];
+}) {
+  if (content.kind === 'projection') {
+    const { stats } = content;
+    const config = EVENT_TYPE_CONFIG[stats.type];
+    return (
+      <>
+        <TooltipBadge label={`Projected ${config.label}`} color={config.color} dashed />
+        <div className="text-xs text-gray-500">
+          Due around {formatDate(stats.nextDue!, false)}, based on {stats.intervals.length} past interval{stats.intervals.length === 1 ? '' : 's'}
+        </div>
+      </>
+    );
+  }
+
+  if (content.kind === 'ownership') {
+    const { period } = content;
+    const color = period.relationship === 'OWNER' ? '#0284c7' : '#78716c';
+    return (
+      <>
+        <TooltipBadge label={formatRelationship(period.relationship)} color={color} />
+        <div className="font-semibold text-gray-900 mb-1">{period.name}</div>
+        <div className="text-xs text-gray-500">
+          {formatDate(period.from, false)} – {period.to ? formatDate(period.to, false) : 'present'}
+        </div>
+      </>
+    );
+  }
+
+  const { event } = content;
+  const config = typeConfig(event.type);
+  // Thumbnails for PICTURE events, at most six
+  const pictureData = event.type === 'PICTURE' ? getPicturesForEvent(event.id, pictures) : undefined;
+  const shown = pictureData?.pictures.slice(0, 6) ?? [];
+  const hidden = (pictureData?.pictures.length ?? 0) - shown.length;
+
+  return (
+    <>
+      <div className="flex gap-1">
+        <TooltipBadge label={config.label} color={config.color} bgColor={config.bgColor} />
+        {event.state === 'HIDDEN' && <TooltipBadge label="Hidden" color="#6b7280" bgColor="#f3f4f6" dashed />}
+      </div>
+      <EventDetails event={event} variant="compact" />
+      {shown.length > 0 && (
+        <div className="mt-2 grid grid-cols-3 gap-1">
+          {shown.map(pic => (
+            <SignedImage
+              key={pic.fileName}
+              picture={{ ...pic, assetId, eventId: event.id }}
+              alt={pic.fileName}
+              className="w-full aspect-square object-cover rounded border border-gray-200"
+            />
+          ))}
+          {hidden > 0 && (
+            <div className="flex items-center justify-center aspect-square rounded bg-gray-100 text-xs text-gray-500">
+              +{hidden}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
 export function Timeline({
   events,
   pictures,
   assetId,
   selectedYears,
   onEventClick,
+  projections,
+  positionStints,
+  flaggedEventIds,
+  ownershipPeriods,
+  grouping,
+  coverEvents,
+  extent,
+  initialWindow,
+  viewWindow,
+  onViewWindowChange,
 }: TimelineProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<VisTimeline | null>(null);
   const eventsMapRef = useRef<Map<string, AssetEvent>>(new Map());
+  // Events in time order for keyboard stepping, and the one stepped to
+  const stepOrderRef = useRef<AssetEvent[]>([]);
+  const focusedIdRef = useRef<string | null>(null);
 
   // Custom tooltip state (rendered via portal to body)
-  const [tooltip, setTooltip] = useState<{ html: string; x: number; y: number } | null>(null);
+  const [tooltip, setTooltip] = useState<{ content: TooltipContent; x: number; y: number } | null>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  // Last window received through `viewWindow`; a rebuilt timeline starts there
+  const viewWindowRef = useRef<TimeRange | null>(null);
+  // Read when the timeline is built; changes are applied in place below
+  const extentRef = useRef<TimeRange | null>(null);
+  const initialWindowRef = useRef<TimeRange | null>(null);
+  // Span of this timeline's own items, to recompute bounds on extent changes
+  const itemsSpanRef = useRef<TimeRange | null>(null);
 
   // Position tooltip so it stays within the viewport
-  const positionTooltip = useCallback((itemEl: HTMLElement, html: string) => {
+  const positionTooltip = useCallback((itemEl: HTMLElement, content: TooltipContent) => {
     const rect = itemEl.getBoundingClientRect();
     // Start below the item, centered horizontally
     let x = rect.left + rect.width / 2;
     let y = rect.bottom + 8;
-    setTooltip({ html, x, y });
+    setTooltip({ content, x, y });
   }, []);
 
   // After tooltip renders, adjust if it overflows the viewport
@@ -304,7 +520,42 @@ export function Timeline({
     if (adjusted) {
       setTooltip(prev => prev ? { ...prev, x, y } : null);
     }
-  }, [tooltip?.html]);
+  }, [tooltip?.content]);
+
+  // These run before the build effect below, so a new timeline is
+  // constructed with the current window and bounds instead of fitting the
+  // data first and then jumping (see LESSONS_LEARNED #3).
+  // On a built timeline, widen the scroll bounds in place when the shared
+  // extent grows. Until someone pans or zooms, it then follows a new opening
+  // window (e.g. another compared asset widened the span). Bounds go first:
+  // setWindow clamps to the current ones.
+  useEffect(() => {
+    extentRef.current = extent ?? null;
+    initialWindowRef.current = initialWindow ?? null;
+    const timeline = timelineRef.current;
+    if (!timeline || !itemsSpanRef.current) return;
+    const bounds = scrollBounds(itemsSpanRef.current, extentRef.current);
+    timeline.setOptions({
+      min: bounds.start,
+      max: bounds.end,
+      zoomMax: bounds.end.getTime() - bounds.start.getTime(),
+    });
+    if (initialWindow && !viewWindowRef.current) {
+      timeline.setWindow(initialWindow.start, initialWindow.end, { animation: false });
+    }
+  }, [extent, initialWindow]);
+
+  // Follow the synced window
+  useEffect(() => {
+    if (!viewWindow) return;
+    viewWindowRef.current = viewWindow;
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    const current = timeline.getWindow();
+    if (!sameWindow(current, viewWindow)) {
+      timeline.setWindow(viewWindow.start, viewWindow.end, { animation: false });
+    }
+  }, [viewWindow]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -314,14 +565,65 @@ export function Timeline({
     events.forEach(e => eventsMap.set(e.id, e));
     eventsMapRef.current = eventsMap;
 
-    // Get unique event types for groups
+    // Get unique event types for groups. Rows cover every event passed in
+    // (hidden ones included when shown); cover bands, installations and
+    // projections only come from visible ones.
     const visibleEvents = events.filter(e => e.state === 'VISIBLE');
-    const eventTypes = new Set(visibleEvents.map(e => e.type));
-    const groupData = createGroups(eventTypes, visibleEvents);
+    const eventTypes = new Set(events.map(e => e.type));
+    const periods = ownershipPeriods ?? [];
+    // Cover bands, installation ranges and projections live in the type
+    // rows, so other groupings only draw the events themselves
+    const rowGrouping = grouping && grouping !== 'type' ? grouping : null;
+    const groupData = rowGrouping
+      ? createRowGroups(events, rowGrouping, positionStints ?? [], periods.length > 0)
+      : createGroups(eventTypes, events, periods.length > 0);
     const groups = new DataSet(groupData);
+    const groupFor = rowGrouping
+      ? (event: AssetEvent) => rowGroupId(eventRow(event, rowGrouping, positionStints ?? []).key)
+      : undefined;
+
+    // Nested regrinds inside cover bands resolve to their regrind event
+    const lives = rowGrouping ? [] : getCoverLifecycles(coverEvents ?? visibleEvents);
+    const shownIds = new Set(visibleEvents.map(e => e.id));
+    for (const life of lives) {
+      for (const regrind of life.regrinds) {
+        if (!shownIds.has(regrind.id)) continue;
+        eventsMap.set(coverRegrindItemId(life.recover.id, regrind.id), regrind);
+      }
+    }
 
-    // Create dataset
-    const items = new DataSet(eventsToTimelineItems(events));
+    // Installation ranges resolve to the LINKED event that opened them. Only
+    // drawn when the POSITION row is shown.
+    const showPositions = !rowGrouping && (eventTypes.has('LINKED') || eventTypes.has('UNLINKED'));
+    const stints = showPositions ? positionStints ?? [] : [];
+    for (const stint of stints) {
+      eventsMap.set(positionItemId(stint), stint.linked);
+    }
+
+    // Every event has exactly one item under its own id (a box, or the cover
+    // band for a recover), so stepping goes through those
+    stepOrderRef.current = [...events].sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+    focusedIdRef.current = null;
+
+    // Create dataset. Items that resolve to a flagged event get highlighted.
+    const now = new Date();
+    const itemData = [
+      ...eventsToTimelineItems(events, groupFor),
+      ...coverLifecyclesToTimelineItems(lives, shownIds, now),
+      ...positionStintsToTimelineItems(stints, now),
+      ...ownershipPeriodsToTimelineItems(periods, now),
+      ...(rowGrouping ? [] : projectionsToTimelineItems(projections ?? [], visibleEvents)),
+    ];
+    const items = new DataSet(itemData.map(item => {
+      const event = eventsMap.get(item.id);
+      return event && flaggedEventIds?.has(event.id)
+        ? { ...item, className: `${item.className} event-flagged` }
+        : item;
+    }));
+
+    // Scroll limits follow the data, so no item is out of reach
+    itemsSpanRef.current = itemsRange(itemData, now);
+    const bounds = scrollBounds(itemsSpanRef.current, extentRef.current);
 
     // Calculate height based on number of groups
     const groupCount = groupData.length;
@@ -333,7 +635,12 @@ export function Timeline({
     let initialStart: Date;
     let initialEnd: Date;
 
-    if (selectedYears && selectedYears.size > 0) {
+    const syncedWindow = viewWindowRef.current ?? initialWindowRef.current;
+    if (syncedWindow) {
+      // Open on the synced window, and keep following it across rebuilds
+      initialStart = syncedWindow.start;
+      initialEnd = syncedWindow.end;
+    } else if (selectedYears && selectedYears.size > 0) {
       // Show selected years: Jan 1 to Dec 31
       const yearsArray = Array.from(selectedYears).sort((a, b) => a - b);
       const minYear = yearsArray[0];
@@ -351,7 +658,6 @@ export function Timeline({
       initialEnd = new Date(maxYear, 11, 31); // Dec 31 of last event year
     } else {
       // No events - show current year
-      const now = new Date();
       initialStart = new Date(now.getFullYear(), 0, 1);
       initialEnd = new Date(now.getFullYear(), 11, 31);
     }
@@ -361,10 +667,10 @@ export function Timeline({
       height: `${calculatedHeight}px`,
       start: initialStart,
       end: initialEnd,
-      min: new Date(2015, 0, 1),
-      max: new Date(2030, 0, 1),
-      zoomMin: 1000 * 60 * 60 * 24 * 7, // 1 week
-      zoomMax: 1000 * 60 * 60 * 24 * 365 * 10, // 10 years
+      min: bounds.start,
+      max: bounds.end,
+      zoomMin: ZOOM_MIN_MS,
+      zoomMax: bounds.end.getTime() - bounds.start.getTime(),
       orientation: 'top',
       showCurrentTime: true,
       zoomable: true,
@@ -391,16 +697,34 @@ export function Timeline({
     // Custom tooltip via itemover/itemout
     timeline.on('itemover', (props: { item: string; event: MouseEvent }) => {
       const event = eventsMapRef.current.get(props.item);
-      if (!event) return;
-      const html = formatTooltip(event, assetId, pictures);
+      const projection = projections?.find(p => `projection:${p.type}` === props.item);
+      const period = periods.find((_, i) => ownershipItemId(i) === props.item);
+      let content: TooltipContent;
+      if (event) content = { kind: 'event', event };
+      else if (projection) content = { kind: 'projection', stats: projection };
+      else if (period) content = { kind: 'ownership', period };
+      else return;
       // Find the DOM element for this item
       const itemEl = containerRef.current?.querySelector(`.vis-item[data-id="${props.item}"]`) as HTMLElement | null
         ?? (props.event.target as HTMLElement).closest('.vis-item') as HTMLElement | null;
       if (itemEl) {
-        positionTooltip(itemEl, html);
+        positionTooltip(itemEl, content);
       }
     });
 
+    // Report pans and zooms: live while dragging, and once settled for the
+    // toolbar and keyboard. A window we were just told to show isn't news.
+    const reportWindow = (props: { start: Date; end: Date }) => {
+      const shown = { start: props.start, end: props.end };
+      const expected = viewWindowRef.current ?? initialWindowRef.current;
+      if (expected && sameWindow(shown, expected)) return;
+      onViewWindowChange?.(shown);
+    };
+    timeline.on('rangechange', (props: { start: Date; end: Date; byUser: boolean }) => {
+      if (props.byUser) reportWindow(props);
+    });
+    timeline.on('rangechanged', reportWindow);
+
     timeline.on('itemout', () => {
       setTooltip(null);
     });
@@ -413,6 +737,7 @@ export function Timeline({
 
         if (event) {
           setTooltip(null); // hide tooltip on click
+          focusedIdRef.current = event.id; // keyboard steps continue from here
           if (onEventClick) {
             onEventClick(event);
           } else {
@@ -430,11 +755,154 @@ export function Timeline({
       timeline.destroy();
       timelineRef.current = null;
     };
-  }, [events, pictures, assetId, selectedYears, onEventClick]);
+  }, [events, pictures, assetId, selectedYears, onEventClick, projections, positionStints, flaggedEventIds, ownershipPeriods, grouping, coverEvents, onViewWindowChange]);
+
+  const fitAll = () => {
+    timelineRef.current?.fit({ animation: true });
+  };
+
+  const applyPreset = (preset: ZoomPreset) => {
+    const range = presetWindow(preset, new Date());
+    timelineRef.current?.setWindow(range.start, range.end, { animation: true });
+  };
+
+  const pan = (fraction: number) => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    const { start, end } = timeline.getWindow();
+    const shift = (end.getTime() - start.getTime()) * fraction;
+    timeline.setWindow(start.getTime() + shift, end.getTime() + shift, { animation: false });
+  };
+
+  const openEvent = (event: AssetEvent) => {
+    if (onEventClick) {
+      onEventClick(event);
+    } else {
+      window.open(getEventUrl(assetId, event.id), '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  // Move focus to the next/previous event and open it. Without a focused
+  // event, start from the edge of the visible window.
+  const step = (direction: 1 | -1) => {
+    const timeline = timelineRef.current;
+    const order = stepOrderRef.current;
+    if (!timeline || order.length === 0) return;
+
+    const current = order.findIndex(e => e.id === focusedIdRef.current);
+    let next: number;
+    if (current >= 0) {
+      next = Math.min(order.length - 1, Math.max(0, current + direction));
+    } else {
+      const { start, end } = timeline.getWindow();
+      const times = order.map(e => new Date(e.creationDateTime).getTime());
+      next = direction === 1 ? times.findIndex(t => t >= start.getTime()) : -1;
+      if (direction === -1) {
+        for (let i = times.length - 1; i >= 0 && next < 0; i--) {
+          if (times[i] <= end.getTime()) next = i;
+        }
+      }
+      if (next < 0) next = direction === 1 ? order.length - 1 : 0;
+    }
+
+    const event = order[next];
+    focusedIdRef.current = event.id;
+    timeline.setSelection([event.id]);
+    const { start, end } = timeline.getWindow();
+    const time = new Date(event.creationDateTime);
+    if (time < start || time > end) timeline.moveTo(time, { animation: true });
+    setTooltip(null);
+    if (onEventClick) onEventClick(event);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    switch (e.key) {
+      case 'ArrowLeft':
+        pan(-PAN_FRACTION);
+        break;
+      case 'ArrowRight':
+        pan(PAN_FRACTION);
+        break;
+      case '+':
+      case '=':
+        timelineRef.current?.zoomIn(ZOOM_STEP);
+        break;
+      case '-':
+        timelineRef.current?.zoomOut(ZOOM_STEP);
+        break;
+      case '0':
+      case 'Home':
+        fitAll();
+        break;
+      case 'n':
+      case 'N':
+        step(1);
+        break;
+      case 'p':
+      case 'P':
+        step(-1);
+        break;
+      case 'Enter': {
+        const event = stepOrderRef.current.find(ev => ev.id === focusedIdRef.current);
+        if (!event) return;
+        openEvent(event);
+        break;
+      }
+      case 'Escape':
+        focusedIdRef.current = null;
+        timelineRef.current?.setSelection([]);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const toolbarButton = 'px-2 py-1 rounded border border-gray-200 text-gray-600 hover:border-[#1DB898] hover:text-[#1DB898]';
 
   return (
     <div className="timeline-container">
-      <div ref={containerRef} className="w-full" />
+      {/* Zoom toolbar */}
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+        {ZOOM_PRESETS.map(preset => (
+          <button key={preset.id} type="button" onClick={() => applyPreset(preset)} className={toolbarButton}>
+            {preset.label}
+          </button>
+        ))}
+        <button type="button" onClick={fitAll} className={toolbarButton}>
+          Fit all
+        </button>
+        <span className="mx-1 h-4 border-l border-gray-200" aria-hidden="true" />
+        <button
+          type="button"
+          onClick={() => timelineRef.current?.zoomIn(ZOOM_STEP)}
+          className={toolbarButton}
+          aria-label="Zoom in"
+          title="Zoom in (+)"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => timelineRef.current?.zoomOut(ZOOM_STEP)}
+          className={toolbarButton}
+          aria-label="Zoom out"
+          title="Zoom out (−)"
+        >
+          −
+        </button>
+        <span className="ml-auto hidden sm:inline text-gray-400">
+          ← → pan · + − zoom · N / P next / previous event · Enter open
+        </span>
+      </div>
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        aria-label="Event timeline. Arrow keys pan, plus and minus zoom, N and P step between events."
+        className="w-full rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-[#1DB898]"
+      />
       {tooltip && createPortal(
         <div
           ref={tooltipRef}
@@ -447,8 +915,9 @@ export function Timeline({
             zIndex: 9999,
             pointerEvents: 'none',
           }}
-          dangerouslySetInnerHTML={{ __html: tooltip.html }}
-        />,
+        >
+          <TimelineTooltip content={tooltip.content} assetId={assetId} pictures={pictures} />
+        </div>,
         document.body
       )}
     </div>
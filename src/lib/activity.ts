@@ -0,0 +1,91 @@
+/**
+ * Who recorded what. Breaks events down by person, device and creation
+ * channel (manual entry vs integration) so history can be audited.
+ */
+import type { AssetEvent, EventType } from '../types';
+
+export type ActivityDimension = 'person' | 'device' | 'channel';
+
+export interface ActivityFilter {
+  dimension: ActivityDimension;
+  key: string;
+  label: string;
+}
+
+export interface ActivityEntry {
+  key: string;
+  label: string;
+  count: number;
+  first: string;
+  last: string;
+  types: Partial<Record<EventType, number>>;
+}
+
+/** Keycloak service accounts — events they create come from integrations */
+export const SERVICE_ACCOUNT_PREFIX = 'service-account-';
+
+export function isIntegrationEvent(event: AssetEvent): boolean {
+  if (event.who?.startsWith(SERVICE_ACCOUNT_PREFIX)) return true;
+  return /api|integration|import|sync/i.test(event.creationType || '');
+}
+
+function personKey(event: AssetEvent): { key: string; label: string } {
+  if (event.who) return { key: event.who, label: event.who };
+  if (event.createdByUserId) return { key: event.createdByUserId, label: `User ${event.createdByUserId}` };
+  return { key: '', label: 'Unknown' };
+}
+
+function deviceKey(event: AssetEvent): { key: string; label: string } {
+  if (!event.deviceId && !event.deviceType) return { key: '', label: 'No device' };
+  const key = `${event.deviceType ?? ''}:${event.deviceId ?? ''}`;
+  const label = [event.deviceType, event.deviceId].filter(Boolean).join(' · ');
+  return { key, label };
+}
+
+function channelKey(event: AssetEvent): { key: string; label: string } {
+  const channel = isIntegrationEvent(event) ? 'Integration' : 'Manual';
+  const parts = [channel, event.creationType];
+  if (channel === 'Integration' && event.createdByThirdPartyId) {
+    parts.push(`third party ${event.createdByThirdPartyId}`);
+  }
+  return {
+    key: `${channel}:${event.creationType ?? ''}:${channel === 'Integration' ? event.createdByThirdPartyId ?? '' : ''}`,
+    label: parts.filter(Boolean).join(' · '),
+  };
+}
+
+const KEYS: Record<ActivityDimension, (event: AssetEvent) => { key: string; label: string }> = {
+  person: personKey,
+  device: deviceKey,
+  channel: channelKey,
+};
+
+/** The person/device/channel an event is attributed to */
+export function activityKey(event: AssetEvent, dimension: ActivityDimension): { key: string; label: string } {
+  return KEYS[dimension](event);
+}
+
+export function summarizeActivity(events: AssetEvent[], dimension: ActivityDimension): ActivityEntry[] {
+  const entries = new Map<string, ActivityEntry>();
+  for (const event of events) {
+    const { key, label } = activityKey(event, dimension);
+    const entry = entries.get(key) ?? {
+      key,
+      label,
+      count: 0,
+      first: event.creationDateTime,
+      last: event.creationDateTime,
+      types: {},
+    };
+    entry.count += 1;
+    if (event.creationDateTime < entry.first) entry.first = event.creationDateTime;
+    if (event.creationDateTime > entry.last) entry.last = event.creationDateTime;
+    entry.types[event.type] = (entry.types[event.type] ?? 0) + 1;
+    entries.set(key, entry);
+  }
+  return Array.from(entries.values()).sort((a, b) => b.count - a.count);
+}
+
+export function matchesActivity(event: AssetEvent, filter: ActivityFilter): boolean {
+  return activityKey(event, filter.dimension).key === filter.key;
+}
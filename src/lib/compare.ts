@@ -0,0 +1,75 @@
+/**
+ * Side-by-side asset comparison, typically a failing roller against its
+ * twin on the same machine. Asset ids travel in the `ids` query parameter
+ * (`/compare?ids=6168,6169`); the service diff compares every asset with
+ * the first one.
+ */
+import type { AssetEvent } from '../types';
+import type { ServiceIntervalStats, ServiceType } from './service-intervals';
+import type { TimeRange } from './timeline-range';
+
+/** More than this and the stacked timelines stop being readable */
+export const MAX_COMPARED_ASSETS = 6;
+
+// A value this far (relative) from the first asset's is highlighted
+const DEVIATION_THRESHOLD = 0.25;
+
+export type DiffMetric = 'count' | 'meanDays' | 'medianDays' | 'daysSinceLast';
+
+export interface ServiceDiffRow {
+  type: ServiceType;
+  metric: DiffMetric;
+  label: string;
+  /** One value per asset, in the order compared */
+  values: (number | null)[];
+}
+
+const METRICS: { metric: DiffMetric; label: string }[] = [
+  { metric: 'count', label: 'Services' },
+  { metric: 'meanDays', label: 'Mean interval' },
+  { metric: 'medianDays', label: 'Median interval' },
+  { metric: 'daysSinceLast', label: 'Since last' },
+];
+
+/** "6168, 6169,,6168" -> ["6168", "6169"] */
+export function parseCompareIds(param: string | null): string[] {
+  const ids = (param ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARED_ASSETS);
+}
+
+export function compareUrl(ids: string[]): string {
+  return `/compare?ids=${ids.map(encodeURIComponent).join(',')}`;
+}
+
+/** First to last event across every asset, so all timelines share a span */
+export function combinedEventRange(eventLists: AssetEvent[][]): TimeRange | null {
+  const times = eventLists.flat().map(e => new Date(e.creationDateTime).getTime()).filter(t => !Number.isNaN(t));
+  if (times.length === 0) return null;
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+}
+
+/** The most recent regrind or recover across the per-type stats */
+export function lastService(stats: ServiceIntervalStats[]): ServiceIntervalStats | null {
+  return stats
+    .filter(s => s.lastService)
+    .reduce<ServiceIntervalStats | null>((latest, s) => (!latest || s.lastService! > latest.lastService! ? s : latest), null);
+}
+
+/** Service count and interval metrics per service type, one column per asset */
+export function serviceDiffRows(statsPerAsset: ServiceIntervalStats[][], types: ServiceType[]): ServiceDiffRow[] {
+  return types.flatMap(type =>
+    METRICS.map(({ metric, label }) => ({
+      type,
+      metric,
+      label,
+      values: statsPerAsset.map(stats => stats.find(s => s.type === type)?.[metric] ?? null),
+    })),
+  );
+}
+
+/** Whether a value differs notably from the baseline (first asset) */
+export function deviates(value: number | null, baseline: number | null): boolean {
+  if (value === null || baseline === null) return value !== baseline;
+  if (baseline === 0) return value !== 0;
+  return Math.abs(value - baseline) / Math.abs(baseline) > DEVIATION_THRESHOLD;
+}
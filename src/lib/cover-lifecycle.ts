@@ -0,0 +1,37 @@
+/**
+ * Cover lifecycles. A cover lives from one RECOVERED event to the next; the
+ * regrinds in between happened to that cover. The last cover is still on
+ * the roller, so its life is open-ended.
+ */
+import type { AssetEvent } from '../types';
+
+export interface CoverLife {
+  recover: AssetEvent;
+  start: Date;
+  /** Date of the next recover, or null for the cover currently fitted */
+  end: Date | null;
+  regrinds: AssetEvent[];
+}
+
+export function getCoverLifecycles(events: AssetEvent[]): CoverLife[] {
+  const sorted = [...events].sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+  const lives: CoverLife[] = [];
+
+  for (const event of sorted) {
+    if (event.type === 'RECOVERED') {
+      const current = lives[lives.length - 1];
+      if (current) current.end = new Date(event.creationDateTime);
+      lives.push({ recover: event, start: new Date(event.creationDateTime), end: null, regrinds: [] });
+    } else if (event.type === 'REGRINDED' && lives.length > 0) {
+      lives[lives.length - 1].regrinds.push(event);
+    }
+  }
+
+  return lives;
+}
+
+/** "NBR · 65 ShA · Black", skipping whatever the recover did not record */
+export function coverLabel(recover: AssetEvent): string {
+  const parts = [recover.coverMaterial || 'Unknown', recover.coverHardness, recover.coverColor].filter(Boolean);
+  return parts.join(' · ');
+}
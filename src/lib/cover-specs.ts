@@ -0,0 +1,75 @@
+/**
+ * Cover specification history. Each RECOVERED event records the spec of the
+ * cover it fitted; comparing consecutive recovers shows when the customer
+ * got something different from last time (another material, a softer
+ * compound, a new product code). A field only counts as changed when both
+ * recovers recorded it.
+ */
+import type { AssetEvent } from '../types';
+import { getCoverLifecycles, type CoverLife } from './cover-lifecycle';
+import { daysBetween } from './service-intervals';
+
+export type CoverSpecField = 'coverMaterial' | 'coverHardness' | 'coverColor' | 'productionProductCode';
+
+export const COVER_SPEC_FIELDS: { key: CoverSpecField; label: string }[] = [
+  { key: 'coverMaterial', label: 'Material' },
+  { key: 'coverHardness', label: 'Hardness' },
+  { key: 'coverColor', label: 'Color' },
+  { key: 'productionProductCode', label: 'Product code' },
+];
+
+export interface Hardness {
+  value: number;
+  /** Durometer scale as written, e.g. "ShA", "P&J"; empty when none given */
+  scale: string;
+}
+
+export interface SpecChange {
+  field: CoverSpecField;
+  from: string;
+  to: string;
+}
+
+export interface RecoverySpec {
+  life: CoverLife;
+  hardness: Hardness | null;
+  /** How long the cover lasted; up to now for the fitted one */
+  days: number;
+  /** Differences from the previous recover; empty for the first */
+  changes: SpecChange[];
+}
+
+// "65 ShA" -> { value: 65, scale: 'ShA' }; "65" -> { value: 65, scale: '' }
+export function parseHardness(raw: string | undefined): Hardness | null {
+  const m = raw?.trim().match(/^(\d+(?:[.,]\d+)?)\s*(.*)$/);
+  if (!m) return null;
+  return { value: Number(m[1].replace(',', '.')), scale: m[2].trim() };
+}
+
+// Spec values are typed by hand; ignore case and spacing
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function diffSpecs(previous: AssetEvent, current: AssetEvent): SpecChange[] {
+  const changes: SpecChange[] = [];
+  for (const { key } of COVER_SPEC_FIELDS) {
+    const from = previous[key];
+    const to = current[key];
+    if (from && to && normalize(from) !== normalize(to)) {
+      changes.push({ field: key, from, to });
+    }
+  }
+  return changes;
+}
+
+/** One entry per recover, oldest first */
+export function getRecoverySpecs(events: AssetEvent[], now: Date = new Date()): RecoverySpec[] {
+  const lives = getCoverLifecycles(events);
+  return lives.map((life, i) => ({
+    life,
+    hardness: parseHardness(life.recover.coverHardness),
+    days: daysBetween(life.start, life.end ?? now),
+    changes: i > 0 ? diffSpecs(lives[i - 1].recover, life.recover) : [],
+  }));
+}
@@ -0,0 +1,175 @@
+/**
+ * Rule-based data-quality checks over an asset's event history. Each rule is
+ * a small function from events to issues; add a new check by appending to
+ * DATA_QUALITY_RULES.
+ */
+import type { Asset, AssetEvent } from '../types';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface DataQualityIssue {
+  ruleId: string;
+  /** The rule's label, e.g. "Duplicate event on the same day" */
+  label: string;
+  severity: Severity;
+  message: string;
+  /** Events involved, oldest first. The first one is the "primary" event. */
+  eventIds: string[];
+}
+
+export interface DataQualityRule {
+  id: string;
+  label: string;
+  severity: Severity;
+  check: (events: AssetEvent[], asset: Asset) => Omit<DataQualityIssue, 'ruleId' | 'label' | 'severity'>[];
+}
+
+export const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+function byDate(events: AssetEvent[]): AssetEvent[] {
+  return [...events].sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+}
+
+function day(event: AssetEvent): string {
+  return event.creationDateTime.slice(0, 10);
+}
+
+/** Regrinds only remove material; only a recover can make the roller bigger */
+const diameterIncreaseWithoutRecover: DataQualityRule = {
+  id: 'diameter-increase-without-recover',
+  label: 'Diameter went up without a recover',
+  severity: 'error',
+  check: events => {
+    const issues = [];
+    let previous: AssetEvent | null = null;
+    for (const event of byDate(events)) {
+      if (event.type === 'RECOVERED') {
+        previous = event.diameter ? event : null;
+        continue;
+      }
+      if (!event.diameter) continue;
+      if (previous && event.diameter > previous.diameter!) {
+        issues.push({
+          message: `Diameter went from ${previous.diameter} mm to ${event.diameter} mm on ${day(event)} with no recover in between.`,
+          eventIds: [previous.id, event.id],
+        });
+      }
+      previous = event;
+    }
+    return issues;
+  },
+};
+
+/** Same type, same day, same content — usually a double submit */
+const duplicateSameDay: DataQualityRule = {
+  id: 'duplicate-same-day',
+  label: 'Duplicate event on the same day',
+  severity: 'warning',
+  check: events => {
+    const seen = new Map<string, AssetEvent>();
+    const issues = [];
+    for (const event of byDate(events)) {
+      const key = [
+        event.type, day(event), event.diameter ?? '', event.title ?? '',
+        event.description ?? '', event.reference ?? '', event.assetPositionId ?? '',
+      ].join('|');
+      const first = seen.get(key);
+      if (first) {
+        issues.push({
+          message: `Two identical ${event.type} events on ${day(event)}.`,
+          eventIds: [first.id, event.id],
+        });
+      } else {
+        seen.set(key, event);
+      }
+    }
+    return issues;
+  },
+};
+
+const recoveredWithoutMaterial: DataQualityRule = {
+  id: 'recovered-without-material',
+  label: 'Recover without cover material',
+  severity: 'warning',
+  check: events =>
+    events
+      .filter(e => e.type === 'RECOVERED' && !e.coverMaterial)
+      .map(e => ({
+        message: `Recover on ${day(e)} has no cover material.`,
+        eventIds: [e.id],
+      })),
+};
+
+/**
+ * A roller can only be installed in one place. Links are paired per
+ * position, as in positions.ts. A LINKED while another link is still open
+ * means an unlink was never recorded; a second LINKED to the same position
+ * is folded into one stint there, but is still missing its unlink. An
+ * UNLINKED with nothing linked is the mirror image.
+ */
+const unpairedLinks: DataQualityRule = {
+  id: 'unpaired-link',
+  label: 'LINKED/UNLINKED not paired',
+  severity: 'warning',
+  check: events => {
+    const issues = [];
+    // Open links by position, in the order they were made
+    const open = new Map<string, AssetEvent>();
+    // Stale links already flagged. They stay open so a late UNLINKED still
+    // pairs with them, but are reported once, not on every later LINKED.
+    const reported = new Set<string>();
+    for (const event of byDate(events)) {
+      const positionId = event.assetPositionId ?? '';
+      if (event.type === 'LINKED') {
+        const same = open.get(positionId);
+        if (same) {
+          issues.push({
+            message: `Linked to the same position on ${day(same)} and again on ${day(event)} with no unlink in between.`,
+            eventIds: [same.id, event.id],
+          });
+          continue;
+        }
+        for (const other of open.values()) {
+          if (reported.has(other.id)) continue;
+          reported.add(other.id);
+          issues.push({
+            message: `Linked on ${day(other)} but never unlinked before being linked again on ${day(event)}.`,
+            eventIds: [other.id, event.id],
+          });
+        }
+        open.set(positionId, event);
+      } else if (event.type === 'UNLINKED') {
+        // Without a position, the unlink closes the latest link
+        const key = event.assetPositionId ? positionId : [...open.keys()].pop();
+        if (key === undefined || !open.has(key)) {
+          issues.push({
+            message: `Unlinked on ${day(event)} without a matching link.`,
+            eventIds: [event.id],
+          });
+        } else {
+          open.delete(key);
+        }
+      }
+    }
+    return issues;
+  },
+};
+
+export const DATA_QUALITY_RULES: DataQualityRule[] = [
+  diameterIncreaseWithoutRecover,
+  duplicateSameDay,
+  recoveredWithoutMaterial,
+  unpairedLinks,
+];
+
+export function runDataQualityChecks(
+  asset: Asset,
+  events: AssetEvent[],
+  rules: DataQualityRule[] = DATA_QUALITY_RULES,
+): DataQualityIssue[] {
+  return rules
+    .flatMap(rule =>
+      rule.check(events, asset).map(issue => ({ ...issue, ruleId: rule.id, label: rule.label, severity: rule.severity })),
+    )
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
@@ -0,0 +1,73 @@
+/**
+ * Formatting shared by every view of a single event (timeline tooltip,
+ * event sidebar), so they show the same fields the same way.
+ */
+import type { AssetEvent, PictureEvent } from '../types';
+
+// Types whose time of day matters; services are shown by date only
+const SHOW_TIME_TYPES = ['PICTURE', 'LINKED', 'UNLINKED', 'ENGRAVED', 'INITIALIZED', 'UNINITIALIZED'];
+
+// Events the integration creates on its own; not worth a "By" line
+const SERVICE_ACCOUNT = 'service-account-datam-service-client';
+
+export interface EventDetailRow {
+  label: string;
+  value: string;
+}
+
+// Format date as "25 Aug 2025" or "25 Aug 2025, 14:30"
+export function formatDate(date: Date, includeTime: boolean): string {
+  const day = date.getDate();
+  const month = date.toLocaleDateString('en-US', { month: 'short' });
+  const year = date.getFullYear();
+
+  if (includeTime) {
+    const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    return `${day} ${month} ${year}, ${time}`;
+  }
+  return `${day} ${month} ${year}`;
+}
+
+export function formatEventDate(event: AssetEvent): string {
+  return formatDate(new Date(event.creationDateTime), SHOW_TIME_TYPES.includes(event.type));
+}
+
+/** Comments on these types are what the event is about, so they stand out */
+export function isCommentEvent(event: AssetEvent): boolean {
+  return event.type === 'PICTURE' || event.type === 'OTHER';
+}
+
+/** Label/value lines under the description, in display order */
+export function eventDetailRows(event: AssetEvent): EventDetailRow[] {
+  const rows: EventDetailRow[] = [];
+  if (event.diameter) rows.push({ label: 'Diameter', value: `${event.diameter} mm` });
+  if (event.who && event.who !== SERVICE_ACCOUNT) rows.push({ label: 'By', value: event.who });
+  if (event.coverMaterial) rows.push({ label: 'Material', value: event.coverMaterial });
+  if (event.coverHardness) rows.push({ label: 'Hardness', value: event.coverHardness });
+  return rows;
+}
+
+/** "12 Mar 2024, 14:20", or "—" when the timestamp is missing or malformed */
+export function formatTimestamp(value: string | undefined): string {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? formatDate(date, true) : '—';
+}
+
+/** "12 Mar 2024, 14:20 by account.manager" — the last change to an event */
+export function formatLastUpdate(event: AssetEvent): string {
+  const date = formatTimestamp(event.lastUpdatedDateTime);
+  const by = event.lastUpdatedByUserId;
+  if (!by) return date;
+  return date === '—' ? `by ${by}` : `${date} by ${by}`;
+}
+
+// Find pictures for an event
+export function getPicturesForEvent(eventId: string, pictures?: PictureEvent[]): PictureEvent | undefined {
+  if (!pictures) return undefined;
+  return pictures.find(p => p.url.includes(eventId));
+}
+
+// Get Countroll web app URL for an event
+export function getEventUrl(assetId: string, eventId: string): string {
+  return `https://app.countroll.com/#/thing/${assetId}/events/${eventId}`;
+}
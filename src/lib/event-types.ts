@@ -0,0 +1,63 @@
+/**
+ * Display config per event type. Types Countroll sends that we don't list
+ * in `EventType` yet still render — in their own timeline row, with a
+ * neutral style — instead of silently disappearing. Look up the type of an
+ * event from the API with `typeConfig`; `EVENT_TYPE_CONFIG` is only safe to
+ * index with a type known at compile time.
+ */
+import type { EventType } from '../types';
+
+export interface EventTypeConfig {
+  label: string;
+  icon: string;
+  color: string;
+  bgColor: string;
+  group?: string;
+}
+
+export const EVENT_TYPE_CONFIG: Record<EventType, EventTypeConfig> = {
+  RECOVERED: { label: 'Recovered', icon: '▲', color: '#16a34a', bgColor: '#dcfce7' },
+  REGRINDED: { label: 'Regrinded', icon: '▼', color: '#dc2626', bgColor: '#fee2e2' },
+  PICTURE: { label: 'Picture', icon: '📷', color: '#9333ea', bgColor: '#f3e8ff' },
+  ENGRAVED: { label: 'Engraved', icon: '✒', color: '#ea580c', bgColor: '#ffedd5' },
+  INITIALIZED: { label: 'Initialized', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
+  UNINITIALIZED: { label: 'Uninitialized', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
+  LINKED: { label: 'Linked', icon: '🔗', color: '#0891b2', bgColor: '#cffafe', group: 'POSITION' },
+  UNLINKED: { label: 'Unlinked', icon: '🔗', color: '#64748b', bgColor: '#e2e8f0', group: 'POSITION' },
+  ROLLER_LINKED_TO_WO: { label: 'Linked to WO', icon: '•', color: '#6b7280', bgColor: '#f3f4f6' },
+  OTHER: { label: 'Other', icon: '★', color: '#0f766e', bgColor: '#ccfbf1' },
+};
+
+// Every type we know about. Typed as a Record so adding a member to
+// EventType without listing it here fails the type-check.
+const KNOWN: Record<EventType, true> = {
+  RECOVERED: true,
+  REGRINDED: true,
+  PICTURE: true,
+  ENGRAVED: true,
+  INITIALIZED: true,
+  UNINITIALIZED: true,
+  LINKED: true,
+  UNLINKED: true,
+  ROLLER_LINKED_TO_WO: true,
+  OTHER: true,
+};
+
+export function isKnownEventType(type: string): type is EventType {
+  return Object.prototype.hasOwnProperty.call(KNOWN, type);
+}
+
+// "NEW_EVENT_TYPE" -> "New event type"
+function humanize(type: string): string {
+  const words = type.toLowerCase().replace(/_/g, ' ').trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : 'Unknown';
+}
+
+export function fallbackEventConfig(type: string): EventTypeConfig {
+  return { label: humanize(type), icon: '?', color: '#6b7280', bgColor: '#f3f4f6' };
+}
+
+/** Config for an event type, including ones Countroll added after EventType */
+export function typeConfig(type: string): EventTypeConfig {
+  return isKnownEventType(type) ? EVENT_TYPE_CONFIG[type] : fallbackEventConfig(type);
+}
@@ -0,0 +1,59 @@
+/**
+ * GPS helpers for the event map. Countroll stores `gpsCoordinates` as a free
+ * string ("50.8503,4.3517", "50.8503, 4.3517", occasionally with labels), so
+ * we take the first two numbers and sanity-check them as lat/lng.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export function parseGpsCoordinates(value?: string): LatLng | null {
+  if (!value) return null;
+  const numbers = value.match(/-?\d+(?:\.\d+)?/g);
+  if (!numbers || numbers.length < 2) return null;
+  const lat = Number(numbers[0]);
+  const lng = Number(numbers[1]);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  // 0,0 is what a device reports before it has a fix
+  if (lat === 0 && lng === 0) return null;
+  return { lat, lng };
+}
+
+export const TILE_SIZE = 256;
+const MAX_MERCATOR_LAT = 85.0511;
+
+/** Web Mercator world pixel coordinates at a zoom level */
+export function project({ lat, lng }: LatLng, zoom: number): { x: number; y: number } {
+  const size = TILE_SIZE * 2 ** zoom;
+  const clamped = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+  const phi = (clamped * Math.PI) / 180;
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: ((1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2) * size,
+  };
+}
+
+/** Highest zoom at which every point fits inside width × height */
+export function fitZoom(points: LatLng[], width: number, height: number, maxZoom = 16): number {
+  for (let zoom = maxZoom; zoom > 0; zoom--) {
+    const projected = points.map(p => project(p, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    if (Math.max(...xs) - Math.min(...xs) <= width && Math.max(...ys) - Math.min(...ys) <= height) {
+      return zoom;
+    }
+  }
+  return 0;
+}
+
+/** Fill a {z}/{x}/{y} tile URL template (also accepts {s} → 'a') */
+export function tileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{s}', 'a');
+}
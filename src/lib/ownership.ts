@@ -0,0 +1,93 @@
+/**
+ * Who owned or serviced a roller over time, from `thirdPartyLinks`. Each
+ * link has a relationship (OWNER, or e.g. a service role) and a from/to
+ * window; a link without `to` is still current.
+ */
+import type { Asset, ThirdParty } from '../types';
+import { daysBetween } from './service-intervals';
+
+/** Hannecard's own third-party id; not a customer */
+export const HANNECARD_THIRD_PARTY_ID = '2';
+
+export interface ThirdPartyPeriod {
+  thirdPartyId: string;
+  name: string;
+  relationship: string;
+  from: Date;
+  /** Null while the link is still current */
+  to: Date | null;
+  days: number;
+}
+
+export interface PartnerLabel {
+  thirdPartyId: string;
+  name: string;
+  label: string;
+}
+
+export function formatThirdPartyName(thirdParty: ThirdParty): string {
+  return [thirdParty.name1, thirdParty.name2].filter(Boolean).join(' ').trim();
+}
+
+// "SERVICE_PROVIDER" -> "Service provider"
+export function formatRelationship(relationship: string): string {
+  const words = relationship.toLowerCase().replace(/_/g, ' ');
+  return words ? words[0].toUpperCase() + words.slice(1) : 'Linked';
+}
+
+function nameOf(thirdPartyId: string, names: Record<string, string>): string {
+  return names[thirdPartyId] || `Third party ${thirdPartyId}`;
+}
+
+/** Every third party referenced by the asset: links first, then partner labels */
+export function linkedThirdPartyIds(asset: Asset): string[] {
+  const ids = [
+    ...(asset.thirdPartyLinks ?? []).map(l => l.thirdPartyId),
+    ...Object.keys(asset.partnerLabels ?? {}),
+  ];
+  return Array.from(new Set(ids));
+}
+
+/**
+ * The customer that owns the roller now: the open OWNER link, else the
+ * latest one, falling back to the first non-Hannecard partnerLabels key.
+ */
+export function currentOwnerId(asset: Asset): string | undefined {
+  const owners = (asset.thirdPartyLinks ?? [])
+    .filter(l => l.relationship === 'OWNER' && l.thirdPartyId !== HANNECARD_THIRD_PARTY_ID)
+    .sort((a, b) => a.from.localeCompare(b.from));
+  const current = owners.find(l => l.to === null) ?? owners[owners.length - 1];
+  return current?.thirdPartyId
+    ?? Object.keys(asset.partnerLabels ?? {}).find(id => id !== HANNECARD_THIRD_PARTY_ID);
+}
+
+/** Link periods in start order; names resolved from `names` where known */
+export function getThirdPartyPeriods(
+  asset: Asset,
+  names: Record<string, string>,
+  now: Date = new Date(),
+): ThirdPartyPeriod[] {
+  return (asset.thirdPartyLinks ?? [])
+    .filter(l => !Number.isNaN(new Date(l.from).getTime()))
+    .map(l => {
+      const from = new Date(l.from);
+      const to = l.to ? new Date(l.to) : null;
+      return {
+        thirdPartyId: l.thirdPartyId,
+        name: nameOf(l.thirdPartyId, names),
+        relationship: l.relationship,
+        from,
+        to,
+        days: daysBetween(from, to ?? now),
+      };
+    })
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+}
+
+export function getPartnerLabels(asset: Asset, names: Record<string, string>): PartnerLabel[] {
+  return Object.entries(asset.partnerLabels ?? {}).map(([thirdPartyId, label]) => ({
+    thirdPartyId,
+    name: nameOf(thirdPartyId, names),
+    label,
+  }));
+}
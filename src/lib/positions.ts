@@ -0,0 +1,92 @@
+/**
+ * Installation history. LINKED/UNLINKED events are paired by
+ * `assetPositionId` into stints: "installed at position X from A to B".
+ * A LINKED without a later UNLINKED is an open stint — the roller is
+ * still installed there.
+ */
+import type { Asset, AssetEvent } from '../types';
+import { daysBetween } from './service-intervals';
+
+export interface PositionStint {
+  positionId: string;
+  positionName: string;
+  linked: AssetEvent;
+  /** Null while the roller is still installed */
+  unlinked: AssetEvent | null;
+  start: Date;
+  end: Date | null;
+}
+
+export interface PositionSummary {
+  positionId: string;
+  positionName: string;
+  stints: number;
+  totalDays: number;
+  installed: boolean;
+}
+
+/**
+ * Position names only come with `Asset.currentPosition`; events carry just
+ * the id. Fall back to the LINKED/UNLINKED title, then to the raw id.
+ */
+export function resolvePositionName(positionId: string, asset: Asset): string {
+  if (asset.currentPosition?.id === positionId) return asset.currentPosition.name;
+  const titled = (asset.events || []).find(
+    e => e.assetPositionId === positionId && (e.type === 'LINKED' || e.type === 'UNLINKED') && e.title,
+  );
+  return titled?.title || `Position ${positionId}`;
+}
+
+export function getPositionStints(asset: Asset, events: AssetEvent[]): PositionStint[] {
+  const sorted = events
+    .filter(e => (e.type === 'LINKED' || e.type === 'UNLINKED') && e.assetPositionId)
+    .sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+
+  const stints: PositionStint[] = [];
+  const open = new Map<string, PositionStint>();
+
+  for (const event of sorted) {
+    const positionId = event.assetPositionId!;
+    if (event.type === 'LINKED') {
+      // A repeated LINKED for a position we're already at continues the stint
+      if (open.has(positionId)) continue;
+      const stint: PositionStint = {
+        positionId,
+        positionName: resolvePositionName(positionId, asset),
+        linked: event,
+        unlinked: null,
+        start: new Date(event.creationDateTime),
+        end: null,
+      };
+      stints.push(stint);
+      open.set(positionId, stint);
+    } else {
+      // UNLINKED without a matching LINKED has no start; skip it
+      const stint = open.get(positionId);
+      if (!stint) continue;
+      stint.unlinked = event;
+      stint.end = new Date(event.creationDateTime);
+      open.delete(positionId);
+    }
+  }
+
+  return stints;
+}
+
+export function summarizePositions(stints: PositionStint[], now: Date = new Date()): PositionSummary[] {
+  const byPosition = new Map<string, PositionSummary>();
+  for (const stint of stints) {
+    const summary = byPosition.get(stint.positionId) ?? {
+      positionId: stint.positionId,
+      positionName: stint.positionName,
+      stints: 0,
+      totalDays: 0,
+      installed: false,
+    };
+    summary.stints += 1;
+    summary.totalDays += daysBetween(stint.start, stint.end ?? now);
+    if (!stint.end) summary.installed = true;
+    byPosition.set(stint.positionId, summary);
+  }
+  return Array.from(byPosition.values()).sort((a, b) => b.totalDays - a.totalDays);
+}
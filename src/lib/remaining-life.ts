@@ -0,0 +1,129 @@
+/**
+ * Remaining cover life. Every regrind takes material off the cover; once the
+ * diameter would drop below the minimum for the asset, the roller needs a
+ * recover instead. We estimate how many regrinds are left from the average
+ * diameter removed per regrind in the asset's own history.
+ */
+import type { Asset, AssetEvent } from '../types';
+import { computeServiceIntervals } from './service-intervals';
+
+export interface MinCoverDiameterConfig {
+  /** Minimum cover diameter (mm) per `Asset.customType`; wins over `type` */
+  customType: Record<string, number>;
+  /** Minimum cover diameter (mm) per `Asset.type` (e.g. ROLLER, SLEEVE) */
+  type: Record<string, number>;
+}
+
+const NO_MIN_COVER_DIAMETERS: MinCoverDiameterConfig = { customType: {}, type: {} };
+
+function isDiameterTable(value: unknown): value is Record<string, number> {
+  return typeof value === 'object' && value !== null
+    && Object.values(value).every(v => typeof v === 'number' && v > 0);
+}
+
+/**
+ * Limits come only from the JSON in `VITE_MIN_COVER_DIAMETERS` (see
+ * .env.example); with none configured the panel says so rather than guess.
+ */
+function loadMinCoverDiameters(raw: string | undefined): MinCoverDiameterConfig {
+  if (!raw) return NO_MIN_COVER_DIAMETERS;
+  try {
+    const parsed = JSON.parse(raw) as Partial<Record<keyof MinCoverDiameterConfig, unknown>>;
+    return {
+      customType: isDiameterTable(parsed.customType) ? parsed.customType : {},
+      type: isDiameterTable(parsed.type) ? parsed.type : {},
+    };
+  } catch {
+    console.warn('[remaining-life] VITE_MIN_COVER_DIAMETERS is not valid JSON, ignoring it');
+    return NO_MIN_COVER_DIAMETERS;
+  }
+}
+
+export const MIN_COVER_DIAMETERS = loadMinCoverDiameters(import.meta.env.VITE_MIN_COVER_DIAMETERS);
+
+/**
+ * Without a configured limit but with a known core diameter, we estimate the
+ * minimum as the core plus this much rubber on each side. Shown as an
+ * estimate, never as the limit.
+ */
+export const ESTIMATED_MIN_COVER_THICKNESS_MM = 5;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type MinDiameterSource = 'customType' | 'type' | 'coreEstimate';
+
+export interface MinDiameter {
+  value: number;
+  source: MinDiameterSource;
+}
+
+export interface RemainingLife {
+  minDiameter: MinDiameter | null;
+  currentDiameter: number | null;
+  currentDiameterAt: Date | null;
+  /** Mean mm of diameter removed per regrind, from consecutive readings */
+  avgRemovedPerRegrind: number | null;
+  /** Number of regrinds the average is based on */
+  sampleCount: number;
+  regrindsLeft: number | null;
+  /** Rough date the next recover will be needed */
+  recoverDue: Date | null;
+}
+
+export function getMinCoverDiameter(asset: Asset): MinDiameter | null {
+  const { customType, type } = MIN_COVER_DIAMETERS;
+  if (asset.customType && customType[asset.customType] !== undefined) {
+    return { value: customType[asset.customType], source: 'customType' };
+  }
+  if (type[asset.type] !== undefined) {
+    return { value: type[asset.type], source: 'type' };
+  }
+  if (asset.diameterCore) {
+    return { value: asset.diameterCore + 2 * ESTIMATED_MIN_COVER_THICKNESS_MM, source: 'coreEstimate' };
+  }
+  return null;
+}
+
+export function estimateRemainingLife(asset: Asset, events: AssetEvent[]): RemainingLife {
+  const readings = events
+    .filter(e => typeof e.diameter === 'number' && e.diameter > 0)
+    .sort((a, b) => a.creationDateTime.localeCompare(b.creationDateTime));
+
+  // Diameter removed by each regrind = previous reading minus the regrind's
+  // reading. Readings that went up (recover, typo) are not material removal.
+  const removed: number[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    if (readings[i].type !== 'REGRINDED') continue;
+    const delta = readings[i - 1].diameter! - readings[i].diameter!;
+    if (delta > 0) removed.push(delta);
+  }
+
+  const last = readings[readings.length - 1];
+  const result: RemainingLife = {
+    minDiameter: getMinCoverDiameter(asset),
+    currentDiameter: last?.diameter ?? null,
+    currentDiameterAt: last ? new Date(last.creationDateTime) : null,
+    avgRemovedPerRegrind: removed.length > 0 ? removed.reduce((s, d) => s + d, 0) / removed.length : null,
+    sampleCount: removed.length,
+    regrindsLeft: null,
+    recoverDue: null,
+  };
+
+  if (result.minDiameter === null || result.currentDiameter === null || result.avgRemovedPerRegrind === null) {
+    return result;
+  }
+
+  const margin = result.currentDiameter - result.minDiameter.value;
+  result.regrindsLeft = Math.max(0, Math.floor(margin / result.avgRemovedPerRegrind));
+
+  // The regrind after the last one that still fits is when a recover is due.
+  // Count from the latest service of either kind.
+  const regrindStats = computeServiceIntervals(events, 'REGRINDED');
+  const lastRecover = computeServiceIntervals(events, 'RECOVERED').lastService;
+  if (regrindStats.meanDays !== null) {
+    const from = Math.max(regrindStats.lastService!.getTime(), lastRecover?.getTime() ?? 0);
+    result.recoverDue = new Date(from + (result.regrindsLeft + 1) * regrindStats.meanDays * DAY_MS);
+  }
+
+  return result;
+}
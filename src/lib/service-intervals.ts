@@ -0,0 +1,94 @@
+/**
+ * Service interval analytics. Works out how long a roller runs between two
+ * services of the same type (regrind → regrind, recover → recover) and
+ * projects the next one from the asset's own history.
+ */
+import type { AssetEvent } from '../types';
+
+export type ServiceType = 'REGRINDED' | 'RECOVERED';
+
+export const SERVICE_TYPES: ServiceType[] = ['REGRINDED', 'RECOVERED'];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface ServiceIntervalStats {
+  type: ServiceType;
+  /** Number of services of this type */
+  count: number;
+  /** Days between consecutive services, oldest first */
+  intervals: number[];
+  meanDays: number | null;
+  medianDays: number | null;
+  minDays: number | null;
+  maxDays: number | null;
+  /** Population standard deviation of the intervals */
+  stdDevDays: number | null;
+  lastService: Date | null;
+  daysSinceLast: number | null;
+  /** Last service + mean interval. Null with fewer than two services. */
+  nextDue: Date | null;
+  /** True when `nextDue` has already passed */
+  overdue: boolean;
+}
+
+export function daysBetween(a: Date, b: Date): number {
+  return (b.getTime() - a.getTime()) / DAY_MS;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function computeServiceIntervals(
+  events: AssetEvent[],
+  type: ServiceType,
+  now: Date = new Date(),
+): ServiceIntervalStats {
+  const dates = events
+    .filter(e => e.type === type)
+    .map(e => new Date(e.creationDateTime))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const intervals: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    intervals.push(daysBetween(dates[i - 1], dates[i]));
+  }
+
+  const lastService = dates.length > 0 ? dates[dates.length - 1] : null;
+  const stats: ServiceIntervalStats = {
+    type,
+    count: dates.length,
+    intervals,
+    meanDays: null,
+    medianDays: null,
+    minDays: null,
+    maxDays: null,
+    stdDevDays: null,
+    lastService,
+    daysSinceLast: lastService ? daysBetween(lastService, now) : null,
+    nextDue: null,
+    overdue: false,
+  };
+
+  if (intervals.length === 0) return stats;
+
+  const mean = intervals.reduce((sum, d) => sum + d, 0) / intervals.length;
+  const variance = intervals.reduce((sum, d) => sum + (d - mean) ** 2, 0) / intervals.length;
+  stats.meanDays = mean;
+  stats.medianDays = median(intervals);
+  stats.minDays = Math.min(...intervals);
+  stats.maxDays = Math.max(...intervals);
+  stats.stdDevDays = Math.sqrt(variance);
+  stats.nextDue = new Date(lastService!.getTime() + mean * DAY_MS);
+  stats.overdue = stats.nextDue.getTime() < now.getTime();
+  return stats;
+}
+
+/** Format a day count as "45 d", "7.5 mo" or "2.3 y" depending on size */
+export function formatDuration(days: number): string {
+  if (days < 60) return `${Math.round(days)} d`;
+  if (days < 730) return `${(days / 30.44).toFixed(1)} mo`;
+  return `${(days / 365.25).toFixed(1)} y`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Expiry of a signed (pre-authorised) URL, read from its query string.
+ * Covers the common schemes: Azure SAS (`se`), S3 / GCS v4 signatures
+ * (`X-Amz-Date` + `X-Amz-Expires`, `X-Goog-Date` + `X-Goog-Expires`) and
+ * the epoch `Expires` of S3 v2 and CloudFront. Null when the URL carries
+ * no recognisable expiry.
+ */
+
+// "20260201T101500Z" -> Date
+function parseCompactTimestamp(value: string): Date | null {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (!m) return null;
+  return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]));
+}
+
+function validDate(date: Date | null): Date | null {
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+export function signedUrlExpiry(url: string): Date | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url, 'http://relative.invalid').searchParams;
+  } catch {
+    return null;
+  }
+
+  const sasExpiry = params.get('se');
+  if (sasExpiry) return validDate(new Date(sasExpiry));
+
+  for (const vendor of ['Amz', 'Goog']) {
+    const signedAt = params.get(`X-${vendor}-Date`);
+    const expiresIn = params.get(`X-${vendor}-Expires`);
+    if (signedAt && expiresIn) {
+      const start = parseCompactTimestamp(signedAt);
+      return start ? validDate(new Date(start.getTime() + Number(expiresIn) * 1000)) : null;
+    }
+  }
+
+  const epoch = params.get('Expires');
+  if (epoch && /^\d+$/.test(epoch)) return validDate(new Date(Number(epoch) * 1000));
+
+  return null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Timeline row grouping. By default rows follow the event type; for
+ * investigations they can instead follow who recorded the event, the
+ * device it came from, where the roller was installed at the time, or be
+ * collapsed into one row. The choice is a per-user preference kept in
+ * localStorage.
+ */
+import type { AssetEvent } from '../types';
+import { activityKey } from './activity';
+import type { PositionStint } from './positions';
+
+export type TimelineGrouping = 'type' | 'author' | 'device' | 'position' | 'flat';
+
+export const TIMELINE_GROUPINGS: { id: TimelineGrouping; label: string }[] = [
+  { id: 'type', label: 'Event type' },
+  { id: 'author', label: 'Author' },
+  { id: 'device', label: 'Device' },
+  { id: 'position', label: 'Position' },
+  { id: 'flat', label: 'Single row' },
+];
+
+export interface EventRow {
+  key: string;
+  label: string;
+}
+
+const STORAGE_PREFIX = 'timeline:grouping:';
+
+// Position the roller was at when the event happened. LINKED/UNLINKED name
+// it themselves; anything else falls inside a stint, or none.
+function positionRow(event: AssetEvent, stints: PositionStint[]): EventRow {
+  const time = new Date(event.creationDateTime).getTime();
+  const stint = event.assetPositionId
+    ? stints.find(s => s.positionId === event.assetPositionId)
+    : stints.find(s => s.start.getTime() <= time && (!s.end || time < s.end.getTime()));
+  if (stint) return { key: stint.positionId, label: stint.positionName };
+  if (event.assetPositionId) return { key: event.assetPositionId, label: `Position ${event.assetPositionId}` };
+  return { key: '', label: 'Not installed' };
+}
+
+/** The row an event goes in, for every grouping except by type */
+export function eventRow(
+  event: AssetEvent,
+  grouping: Exclude<TimelineGrouping, 'type'>,
+  stints: PositionStint[],
+): EventRow {
+  switch (grouping) {
+    case 'author':
+      return activityKey(event, 'person');
+    case 'device':
+      return activityKey(event, 'device');
+    case 'position':
+      return positionRow(event, stints);
+    case 'flat':
+      return { key: 'all', label: 'All events' };
+  }
+}
+
+function isGrouping(value: string | null): value is TimelineGrouping {
+  return TIMELINE_GROUPINGS.some(g => g.id === value);
+}
+
+/** The grouping this user picked last, or by type */
+export function loadTimelineGrouping(user: string | undefined): TimelineGrouping {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + (user ?? ''));
+    return isGrouping(stored) ? stored : 'type';
+  } catch {
+    return 'type';
+  }
+}
+
+export function saveTimelineGrouping(user: string | undefined, grouping: TimelineGrouping): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + (user ?? ''), grouping);
+  } catch {
+    // localStorage full or unavailable — the preference is best-effort
+  }
+}
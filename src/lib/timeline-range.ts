@@ -0,0 +1,58 @@
+/**
+ * Time bounds and zoom presets for the asset timeline. Bounds follow the
+ * data (plus a margin, and always including today) instead of a fixed
+ * window, so events from any year stay reachable.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const YEAR_MS = DAY_MS * 365;
+
+// How far past the first/last item the timeline can be scrolled
+const BOUNDS_MARGIN_MS = YEAR_MS;
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ZoomPreset {
+  id: string;
+  label: string;
+  months: number;
+}
+
+export const ZOOM_PRESETS: ZoomPreset[] = [
+  { id: '12m', label: '12 months', months: 12 },
+  { id: '3y', label: '3 years', months: 36 },
+  { id: '5y', label: '5 years', months: 60 },
+];
+
+/** Narrowest zoom: one week */
+export const ZOOM_MIN_MS = DAY_MS * 7;
+
+/** Earliest start to latest end of the items, always including `now` */
+export function itemsRange(items: { start: Date; end?: Date }[], now: Date): TimeRange {
+  let start = now.getTime();
+  let end = now.getTime();
+  for (const item of items) {
+    start = Math.min(start, item.start.getTime());
+    end = Math.max(end, (item.end ?? item.start).getTime());
+  }
+  return { start: new Date(start), end: new Date(end) };
+}
+
+/** Scroll limits for a data range */
+export function timelineBounds(range: TimeRange): TimeRange {
+  return {
+    start: new Date(range.start.getTime() - BOUNDS_MARGIN_MS),
+    end: new Date(range.end.getTime() + BOUNDS_MARGIN_MS),
+  };
+}
+
+/** The last `months` up to now, with a little room after today */
+export function presetWindow(preset: ZoomPreset, now: Date): TimeRange {
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - preset.months);
+  const margin = (now.getTime() - start.getTime()) * 0.03;
+  return { start, end: new Date(now.getTime() + margin) };
+}
@@ -1,7 +1,9 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { getStatsAccess } from '../api/stats-access';
-import { fetchAsset, fetchPictures, fetchEventDocuments, fetchDocumentThumbnailUrl, fetchThirdParty } from '../api/countroll';
+import { getHiddenEventsAccess } from '../api/audit-access';
+import { fetchAssetData, getCachedAssetData, fetchThirdParty } from '../api/countroll';
+import type { CachedAssetData } from '../api/asset-cache';
 import { logout, getCurrentUser } from '../api/auth-code';
 import { Timeline, MAIN_EVENT_TYPES } from '../components/Timeline';
 import { Filters } from '../components/Filters';
@@ -11,6 +13,32 @@ import { EmptyState } from '../components/EmptyState';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { RollerDiagram } from '../components/RollerDiagram';
 import { PhotoLibrary } from '../components/PhotoLibrary';
+import { DiameterChart } from '../components/DiameterChart';
+import { ServiceIntervals } from '../components/ServiceIntervals';
+import { RemainingLife } from '../components/RemainingLife';
+import { PositionHistory } from '../components/PositionHistory';
+import { OwnershipPanel } from '../components/OwnershipPanel';
+import { OrdersTable } from '../components/OrdersTable';
+import { CoverSpecHistory } from '../components/CoverSpecHistory';
+import { DataQualityPanel } from '../components/DataQualityPanel';
+import { EventMap } from '../components/EventMap';
+import { ActivityPanel } from '../components/ActivityPanel';
+import { computeServiceIntervals, SERVICE_TYPES } from '../lib/service-intervals';
+import { estimateRemainingLife } from '../lib/remaining-life';
+import { getPositionStints, summarizePositions } from '../lib/positions';
+import { runDataQualityChecks } from '../lib/data-quality';
+import { getRecoverySpecs } from '../lib/cover-specs';
+import { loadTimelineGrouping, saveTimelineGrouping, type TimelineGrouping } from '../lib/timeline-grouping';
+import { matchesActivity, type ActivityFilter } from '../lib/activity';
+import { parseGpsCoordinates } from '../lib/geo';
+import { compareUrl } from '../lib/compare';
+import {
+  currentOwnerId,
+  formatThirdPartyName,
+  getPartnerLabels,
+  getThirdPartyPeriods,
+  linkedThirdPartyIds,
+} from '../lib/ownership';
 import type { EventType, AssetEvent, Asset, PictureEvent } from '../types';
 
 export function AssetPage() {
@@ -31,9 +59,18 @@ export function AssetPage() {
   // Data state
   const [asset, setAsset] = useState<Asset | null>(null);
   const [pictures, setPictures] = useState<PictureEvent[]>([]);
-  const [customerName, setCustomerName] = useState<string | null>(null);
+  // Resolved names of every linked third party, by id
+  const [thirdPartyNames, setThirdPartyNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  // Bumped by "Try again" to re-run the load effect
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Cache state: when the asset on screen came from the persistent cache and
+  // is still being refreshed, `cachedAt` holds when it was cached
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [refreshFailed, setRefreshFailed] = useState(false);
+  const [newEventCount, setNewEventCount] = useState(0);
 
   // Default event types (exclude ENGRAVED)
   const DEFAULT_EVENT_TYPES: EventType[] = ['RECOVERED', 'REGRINDED', 'PICTURE', 'OTHER', 'LINKED', 'UNLINKED'];
@@ -43,6 +80,22 @@ export function AssetPage() {
     () => new Set(DEFAULT_EVENT_TYPES)
   );
   const [selectedYears, setSelectedYears] = useState<Set<number>>(() => new Set());
+  const [activityFilter, setActivityFilter] = useState<ActivityFilter | null>(null);
+
+  // Audit mode: also draw HIDDEN events, for allowlisted users only
+  const [showHidden, setShowHidden] = useState(false);
+
+  // Timeline rows; remembered per user, kept across assets
+  const [grouping, setGrouping] = useState<TimelineGrouping>(
+    () => loadTimelineGrouping(getCurrentUser()?.preferredUsername)
+  );
+  const handleGroupingChange = (next: TimelineGrouping) => {
+    setGrouping(next);
+    saveTimelineGrouping(getCurrentUser()?.preferredUsername, next);
+  };
+
+  // Details tabs below the timeline
+  const [detailsTab, setDetailsTab] = useState<'orders' | 'covers' | 'activity' | 'locations'>('orders');
 
   // Sidebar state
   const [selectedEvent, setSelectedEvent] = useState<AssetEvent | null>(null);
@@ -60,84 +113,87 @@ export function AssetPage() {
       return;
     }
 
-    let cancelled = false;
+    // Aborted when leaving the page or switching assets, which cancels the
+    // in-flight requests rather than just ignoring their results
+    const controller = new AbortController();
+    const { signal } = controller;
 
     // Reset filters when navigating to a new asset
     setSelectedTypes(new Set(DEFAULT_EVENT_TYPES));
     setSelectedYears(new Set());
+    setActivityFilter(null);
     setSelectedEvent(null);
-    setCustomerName(null);
+    setThirdPartyNames({});
+
+    // Resolve the names of every third party in thirdPartyLinks and
+    // partnerLabels, except those already resolved for `known`. Each lookup
+    // is independent; failures just leave the id.
+    function resolveThirdParties(assetData: Asset, known?: Asset) {
+      const resolved = new Set(known ? linkedThirdPartyIds(known) : []);
+      for (const id of linkedThirdPartyIds(assetData)) {
+        if (resolved.has(id)) continue;
+        fetchThirdParty(id, signal)
+          .then(tp => {
+            if (signal.aborted) return;
+            const name = formatThirdPartyName(tp);
+            if (name) setThirdPartyNames(prev => ({ ...prev, [id]: name }));
+          })
+          .catch(() => { /* non-fatal */ });
+      }
+    }
 
     async function loadData() {
       setLoading(true);
       setError(null);
+      setCachedAt(null);
+      setRefreshFailed(false);
+      setNewEventCount(0);
+
+      // Stale-while-revalidate: the cache read and the network request start
+      // together. A cache hit is shown if it arrives first; the fresh data
+      // replaces it when it lands.
+      const network = fetchAssetData(assetId!, signal);
+      // `settled` once the network answered, so a late cache hit can't
+      // overwrite fresh data
+      const cache: { shown: CachedAssetData | null; settled: boolean } = { shown: null, settled: false };
+      const cacheRead = getCachedAssetData(assetId!).then(cached => {
+        if (!cached || cache.settled || signal.aborted) return;
+        cache.shown = cached;
+        setAsset(cached.asset);
+        setPictures(cached.pictures);
+        setCachedAt(cached.cachedAt);
+        setLoading(false);
+        resolveThirdParties(cached.asset);
+      });
 
       try {
-        // Fetch asset and pictures in parallel
-        const [assetData, picturesData] = await Promise.all([
-          fetchAsset(assetId!),
-          fetchPictures(assetId!).catch(() => ({ pictureEvents: [] })),
-        ]);
-
-        if (!cancelled) {
-          const allPictures = [...(picturesData.pictureEvents || [])];
-
-          // Fetch documents for OTHER events (they store pictures as documents)
-          const otherEvents = (assetData.events || []).filter((e: AssetEvent) => e.type === 'OTHER' && e.state === 'VISIBLE');
-          if (otherEvents.length > 0) {
-            const docResults = await Promise.all(
-              otherEvents.map(async (e: AssetEvent) => {
-                const docs = await fetchEventDocuments(assetId!, e.id);
-                const imageDocs = docs.filter(d => d.contentType.startsWith('image/'));
-                if (imageDocs.length === 0) return null;
-                // Fetch thumbnail URLs for grid display
-                const thumbnailUrls = await Promise.all(
-                  imageDocs.map(d => fetchDocumentThumbnailUrl(assetId!, e.id, d.documentName))
-                );
-                return {
-                  url: `https://app.countroll.com/#/thing/${assetId}/events/${e.id}`,
-                  numberOfPictures: imageDocs.length,
-                  pictures: imageDocs.map((d, i) => ({
-                    fileName: d.displayName,
-                    downloadUrl: thumbnailUrls[i],
-                    createdOn: d.creationDateTime,
-                    updatedOn: d.lastUpdatedDateTime,
-                    contentType: d.contentType,
-                  })),
-                };
-              })
-            );
-            for (const pe of docResults) {
-              if (pe) allPictures.push(pe);
-            }
-          }
-
-          setAsset(assetData);
-          setPictures(allPictures);
-
-          // Resolve the customer's third-party name. Owner from thirdPartyLinks,
-          // falling back to the first non-Hannecard partnerLabels key. '2' is Hannecard.
-          const ownerId =
-            (assetData.thirdPartyLinks ?? [])
-              .find(l => l.relationship === 'OWNER' && l.thirdPartyId !== '2')?.thirdPartyId
-            ?? Object.keys(assetData.partnerLabels ?? {}).find(id => id !== '2');
-
-          if (ownerId) {
-            fetchThirdParty(ownerId)
-              .then(tp => {
-                if (cancelled) return;
-                const name = [tp.name1, tp.name2].filter(Boolean).join(' ').trim();
-                if (name) setCustomerName(name);
-              })
-              .catch(() => { /* non-fatal */ });
-          }
+        const data = await network;
+        cache.settled = true;
+        if (signal.aborted) return;
+
+        const cached = cache.shown;
+        if (cached) {
+          const known = new Set((cached.asset.events || []).map(e => e.id));
+          setNewEventCount((data.asset.events || []).filter(e => e.state === 'VISIBLE' && !known.has(e.id)).length);
         }
+        // Only third parties the cached copy didn't have still need a name
+        resolveThirdParties(data.asset, cached?.asset);
+        setAsset(data.asset);
+        setPictures(data.pictures);
+        setCachedAt(null);
       } catch (err) {
-        if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load asset data');
+        if (signal.aborted) return;
+        // A failed request can beat the cache read; let it land first
+        await cacheRead;
+        if (signal.aborted) return;
+        if (cache.shown) {
+          // Keep showing the cached copy; flag that it could not be refreshed
+          setRefreshFailed(true);
+        } else {
+          setError(err);
         }
       } finally {
-        if (!cancelled) {
+        if (!signal.aborted) {
           setLoading(false);
         }
       }
@@ -145,10 +201,8 @@ export function AssetPage() {
 
     loadData();
 
-    return () => {
-      cancelled = true;
-    };
-  }, [assetId]);
+    return () => controller.abort();
+  }, [assetId, reloadKey]);
 
   // Toggle event type filter
   const handleTypeToggle = (type: EventType) => {
@@ -167,15 +221,17 @@ export function AssetPage() {
   const handleReset = () => {
     setSelectedTypes(new Set(DEFAULT_EVENT_TYPES));
     setSelectedYears(new Set());
+    setActivityFilter(null);
   };
 
   // Filter events
   const filteredEvents = useMemo(() => {
     if (!asset) return [];
 
+    const includeHidden = showHidden && getHiddenEventsAccess();
     return (asset.events || []).filter((event: AssetEvent) => {
-      // Must be visible
-      if (event.state !== 'VISIBLE') return false;
+      // Must be visible, or hidden while auditing
+      if (event.state === 'HIDDEN' ? !includeHidden : event.state !== 'VISIBLE') return false;
 
       // Must match selected type (or be a non-main type that's always shown)
       const isMainType = MAIN_EVENT_TYPES.includes(event.type);
@@ -187,9 +243,12 @@ export function AssetPage() {
         if (!selectedYears.has(eventYear)) return false;
       }
 
+      // Must match the person/device/channel picked in the Activity tab
+      if (activityFilter && !matchesActivity(event, activityFilter)) return false;
+
       return true;
     });
-  }, [asset, selectedTypes, selectedYears]);
+  }, [asset, selectedTypes, selectedYears, activityFilter, showHidden]);
 
   // All visible events (for stats)
   const allVisibleEvents = useMemo(() => {
@@ -197,6 +256,53 @@ export function AssetPage() {
     return (asset.events || []).filter(e => e.state === 'VISIBLE');
   }, [asset]);
 
+  const hiddenEventCount = useMemo(
+    () => (asset?.events || []).filter(e => e.state === 'HIDDEN').length,
+    [asset],
+  );
+
+  // Interval stats + next-service projection per service type
+  const serviceStats = useMemo(
+    () => SERVICE_TYPES.map(type => computeServiceIntervals(allVisibleEvents, type)),
+    [allVisibleEvents],
+  );
+
+  // Regrinds left before the cover reaches its minimum diameter
+  const remainingLife = useMemo(
+    () => (asset ? estimateRemainingLife(asset, allVisibleEvents) : null),
+    [asset, allVisibleEvents],
+  );
+
+  // Installation stints from LINKED/UNLINKED pairs, and time per position
+  const positionStints = useMemo(
+    () => (asset ? getPositionStints(asset, allVisibleEvents) : []),
+    [asset, allVisibleEvents],
+  );
+  const positionSummaries = useMemo(() => summarizePositions(positionStints), [positionStints]);
+
+  // Cover spec per recover, with changes from the previous one flagged
+  const recoverySpecs = useMemo(() => getRecoverySpecs(allVisibleEvents), [allVisibleEvents]);
+
+  // Data-quality issues, and the events they involve (highlighted on the timeline)
+  const dataQualityIssues = useMemo(
+    () => (asset ? runDataQualityChecks(asset, allVisibleEvents) : []),
+    [asset, allVisibleEvents],
+  );
+  const flaggedEventIds = useMemo(
+    () => new Set(dataQualityIssues.flatMap(issue => issue.eventIds)),
+    [dataQualityIssues],
+  );
+
+  // Owners and service partners over time, and the partners' own labels
+  const thirdPartyPeriods = useMemo(
+    () => (asset ? getThirdPartyPeriods(asset, thirdPartyNames) : []),
+    [asset, thirdPartyNames],
+  );
+  const partnerLabels = useMemo(
+    () => (asset ? getPartnerLabels(asset, thirdPartyNames) : []),
+    [asset, thirdPartyNames],
+  );
+
   // Available years from events
   const availableYears = useMemo(() => {
     if (allVisibleEvents.length === 0) return [];
@@ -224,9 +330,8 @@ export function AssetPage() {
   if (error) {
     return (
       <ErrorState
-        title="Failed to Load Asset"
-        message={error}
-        suggestion="Check the asset ID and your network connection, then try again."
+        error={error}
+        onRetry={() => setReloadKey(k => k + 1)}
       />
     );
   }
@@ -242,7 +347,10 @@ export function AssetPage() {
     );
   }
 
-  const isFiltered = filteredEvents.length !== allVisibleEvents.length;
+  const shownHiddenCount = filteredEvents.filter(e => e.state === 'HIDDEN').length;
+  const isFiltered = filteredEvents.length - shownHiddenCount !== allVisibleEvents.length;
+  const ownerId = currentOwnerId(asset);
+  const customerName = ownerId ? thirdPartyNames[ownerId] : undefined;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -269,6 +377,13 @@ export function AssetPage() {
             </button>
           </form>
           <div className="flex items-center gap-3 justify-self-end">
+            <Link
+              to={compareUrl([asset.id])}
+              title="Compare with other assets"
+              className="text-xs text-gray-500 hover:text-[#1DB898] px-2 py-1"
+            >
+              Compare
+            </Link>
             {getStatsAccess() && (
               <Link
                 to="/stats"
@@ -332,6 +447,27 @@ export function AssetPage() {
                         {asset.status.replace(/_/g, ' ')}
                       </span>
                     </div>
+                    {(cachedAt !== null || newEventCount > 0) && (
+                      <p className="text-xs mt-1">
+                        {cachedAt !== null && (
+                          <span className={refreshFailed ? 'text-amber-700' : 'text-gray-400'}>
+                            {refreshFailed
+                              ? `Offline copy from ${new Date(cachedAt).toLocaleString('en-GB')} — could not refresh`
+                              : 'Showing cached copy · refreshing…'}
+                          </span>
+                        )}
+                        {newEventCount > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setNewEventCount(0)}
+                            title="Dismiss"
+                            className="inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-[#1DB898] text-white"
+                          >
+                            Updated · {newEventCount} new event{newEventCount === 1 ? '' : 's'} ✕
+                          </button>
+                        )}
+                      </p>
+                    )}
                     {customerName && (
                       <p className="text-sm text-gray-700 mt-1 truncate">
                         <span className="text-gray-500">Customer: </span>
@@ -398,6 +534,11 @@ export function AssetPage() {
               </button>
             );
           })()}
+          <DiameterChart
+            events={allVisibleEvents}
+            nominalDiameter={asset.nominalCoverDiameter}
+            onPointClick={setSelectedEvent}
+          />
         </div>
 
         {/* Timeline Card */}
@@ -411,12 +552,35 @@ export function AssetPage() {
               selectedYears={selectedYears}
               onYearsChange={setSelectedYears}
               onReset={handleReset}
+              grouping={grouping}
+              onGroupingChange={handleGroupingChange}
+              hiddenCount={getHiddenEventsAccess() ? hiddenEventCount : 0}
+              showHidden={showHidden}
+              onShowHiddenChange={setShowHidden}
             />
           </div>
 
+          {/* Activity filter chip */}
+          {activityFilter && (
+            <div className="px-4 sm:px-6 pt-3 flex items-center gap-2 text-sm">
+              <span className="text-gray-500">Only events by</span>
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-teal-50 text-teal-800 ring-1 ring-[#1DB898]">
+                {activityFilter.label}
+                <button
+                  type="button"
+                  onClick={() => setActivityFilter(null)}
+                  className="text-teal-600 hover:text-teal-900"
+                  aria-label="Clear activity filter"
+                >
+                  ✕
+                </button>
+              </span>
+            </div>
+          )}
+
           {/* Timeline */}
           <div className="p-2 sm:p-4">
-            {allVisibleEvents.length === 0 ? (
+            {allVisibleEvents.length === 0 && shownHiddenCount === 0 ? (
               <EmptyState
                 title="No Events"
                 message="This asset has no recorded events yet."
@@ -428,6 +592,12 @@ export function AssetPage() {
                 assetId={asset.id}
                 selectedYears={selectedYears}
                 onEventClick={setSelectedEvent}
+                projections={serviceStats}
+                positionStints={positionStints}
+                flaggedEventIds={flaggedEventIds}
+                ownershipPeriods={thirdPartyPeriods}
+                grouping={grouping}
+                coverEvents={allVisibleEvents}
               />
             ) : (
               <EmptyState
@@ -442,17 +612,82 @@ export function AssetPage() {
           </div>
 
           {/* Event count */}
-          {allVisibleEvents.length > 0 && (
+          {(allVisibleEvents.length > 0 || shownHiddenCount > 0) && (
             <div className="px-4 sm:px-6 py-2 border-t border-gray-100 text-sm text-gray-500">
               {isFiltered ? (
-                <span>Showing {filteredEvents.length} of {allVisibleEvents.length} events</span>
+                <span>Showing {filteredEvents.length - shownHiddenCount} of {allVisibleEvents.length} events</span>
               ) : (
                 <span>{allVisibleEvents.length} events</span>
               )}
+              {shownHiddenCount > 0 && <span> · {shownHiddenCount} hidden shown</span>}
             </div>
           )}
         </div>
 
+        {/* Data quality */}
+        {dataQualityIssues.length > 0 && (
+          <div className="mt-4 sm:mt-6">
+            <DataQualityPanel issues={dataQualityIssues} events={allVisibleEvents} onEventClick={setSelectedEvent} />
+          </div>
+        )}
+
+        {/* Service intervals + remaining life */}
+        <div className="mt-4 sm:mt-6 grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 items-start">
+          <div className="lg:col-span-2">
+            <ServiceIntervals stats={serviceStats} />
+          </div>
+          {remainingLife && <RemainingLife estimate={remainingLife} />}
+          {positionSummaries.length > 0 && (
+            <div className="lg:col-span-2">
+              <PositionHistory summaries={positionSummaries} />
+            </div>
+          )}
+          {(thirdPartyPeriods.length > 0 || partnerLabels.length > 0) && (
+            <div className="lg:col-span-2">
+              <OwnershipPanel periods={thirdPartyPeriods} partnerLabels={partnerLabels} />
+            </div>
+          )}
+        </div>
+
+        {/* Details tabs: orders ledger, cover specs, activity breakdown, event locations */}
+        {allVisibleEvents.length > 0 && (() => {
+          const tabs = [
+            { id: 'orders' as const, label: 'Orders', show: allVisibleEvents.some(e => e.type === 'RECOVERED' || e.type === 'REGRINDED') },
+            { id: 'covers' as const, label: 'Covers', show: recoverySpecs.length > 0 },
+            { id: 'activity' as const, label: 'Activity', show: true },
+            { id: 'locations' as const, label: 'Locations', show: allVisibleEvents.some(e => parseGpsCoordinates(e.gpsCoordinates)) },
+          ].filter(t => t.show);
+          const active = tabs.find(t => t.id === detailsTab)?.id ?? tabs[0].id;
+          return (
+            <div className="mt-4 sm:mt-6">
+              <div className="flex gap-1 mb-2" role="tablist">
+                {tabs.map(t => (
+                  <button
+                    key={t.id}
+                    type="button"
+                    role="tab"
+                    aria-selected={active === t.id}
+                    onClick={() => setDetailsTab(t.id)}
+                    className={`px-3 py-1.5 text-sm rounded-t ${
+                      active === t.id
+                        ? 'bg-white text-[#1DB898] font-medium shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+              {active === 'orders' && <OrdersTable events={allVisibleEvents} onEventClick={setSelectedEvent} />}
+              {active === 'covers' && <CoverSpecHistory specs={recoverySpecs} onEventClick={setSelectedEvent} />}
+              {active === 'activity' && (
+                <ActivityPanel events={allVisibleEvents} filter={activityFilter} onFilterChange={setActivityFilter} />
+              )}
+              {active === 'locations' && <EventMap events={allVisibleEvents} onEventClick={setSelectedEvent} />}
+            </div>
+          );
+        })()}
+
         {/* Debug sections */}
         <details className="mt-4 sm:mt-6">
           <summary className="cursor-pointer text-sm text-gray-500 hover:text-gray-700">
@@ -501,6 +736,7 @@ export function AssetPage() {
       {showPhotoLibrary && (
         <PhotoLibrary
           pictures={pictures}
+          assetId={assetId}
           onClose={() => setShowPhotoLibrary(false)}
         />
       )}
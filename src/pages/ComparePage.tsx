@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { fetchAssetData, type AssetData } from '../api/countroll';
+import { NotFoundError } from '../api/errors';
+import { logout, getCurrentUser } from '../api/auth-code';
+import { Timeline } from '../components/Timeline';
+import { EventSidebar } from '../components/EventSidebar';
+import { EmptyState } from '../components/EmptyState';
+import { EVENT_TYPE_CONFIG } from '../lib/event-types';
+import { computeServiceIntervals, formatDuration, SERVICE_TYPES, type ServiceIntervalStats } from '../lib/service-intervals';
+import { getCoverLifecycles, coverLabel } from '../lib/cover-lifecycle';
+import {
+  combinedEventRange,
+  compareUrl,
+  deviates,
+  lastService,
+  MAX_COMPARED_ASSETS,
+  parseCompareIds,
+  serviceDiffRows,
+} from '../lib/compare';
+import type { TimeRange } from '../lib/timeline-range';
+import type { Asset, AssetEvent } from '../types';
+
+interface ComparedAsset {
+  id: string;
+  asset: Asset;
+  pictures: AssetData['pictures'];
+  events: AssetEvent[];
+  stats: ServiceIntervalStats[];
+  onEventClick: (event: AssetEvent) => void;
+}
+
+type LoadResult = { compared: ComparedAsset } | { error: unknown };
+
+// Everything the page shows for one asset. Built once per load, so a
+// timeline keeps the same props (and isn't rebuilt) when others arrive.
+function toComparedAsset(id: string, data: AssetData, onEventClick: (event: AssetEvent) => void): ComparedAsset {
+  const events = (data.asset.events || []).filter(e => e.state === 'VISIBLE');
+  return {
+    id,
+    asset: data.asset,
+    pictures: data.pictures,
+    events,
+    stats: SERVICE_TYPES.map(type => computeServiceIntervals(events, type)),
+    onEventClick,
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function assetLabel(asset: Asset): string {
+  const partnerLabel = asset.partnerLabels ? Object.values(asset.partnerLabels)[0] : undefined;
+  return partnerLabel || asset.preferredLabel;
+}
+
+function formatMetric(value: number | null, isCount: boolean): string {
+  if (value === null) return '—';
+  return isCount ? String(value) : formatDuration(value);
+}
+
+export function ComparePage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const ids = useMemo(() => parseCompareIds(searchParams.get('ids')), [searchParams]);
+  const idsKey = ids.join(',');
+
+  const [addId, setAddId] = useState('');
+  const [results, setResults] = useState<Record<string, LoadResult>>({});
+  // Ids already loaded, so adding an asset doesn't re-fetch the others
+  const loadedRef = useRef(new Set<string>());
+
+  // Shared pan/zoom window; null until someone pans or zooms
+  const [viewWindow, setViewWindow] = useState<TimeRange | null>(null);
+  const [selected, setSelected] = useState<{ assetId: string; event: AssetEvent } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    for (const id of idsKey ? idsKey.split(',') : []) {
+      if (loadedRef.current.has(id)) continue;
+      fetchAssetData(id, controller.signal)
+        .then(data => {
+          loadedRef.current.add(id);
+          const compared = toComparedAsset(id, data, event => setSelected({ assetId: id, event }));
+          setResults(prev => ({ ...prev, [id]: { compared } }));
+        })
+        .catch(error => {
+          if (!controller.signal.aborted) setResults(prev => ({ ...prev, [id]: { error } }));
+        });
+    }
+    return () => controller.abort();
+  }, [idsKey]);
+
+  // Loaded assets, in URL order
+  const compared = useMemo(
+    () => ids.flatMap(id => {
+      const result = results[id];
+      return result && 'compared' in result ? [result.compared] : [];
+    }),
+    [ids, results],
+  );
+
+  // Every timeline can scroll over the whole span, and opens on it until
+  // someone pans or zooms
+  const extent = useMemo(() => combinedEventRange(compared.map(c => c.events)) ?? undefined, [compared]);
+  const initialWindow = useMemo(() => {
+    if (!extent) return null;
+    const pad = (extent.end.getTime() - extent.start.getTime()) * 0.03 || 1000 * 60 * 60 * 24 * 30;
+    return { start: new Date(extent.start.getTime() - pad), end: new Date(extent.end.getTime() + pad) };
+  }, [extent]);
+
+  const diffRows = useMemo(
+    () => serviceDiffRows(compared.map(c => c.stats), SERVICE_TYPES),
+    [compared],
+  );
+
+  const setIds = (next: string[]) => {
+    navigate(next.length > 0 ? compareUrl(next) : '/compare');
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = addId.trim();
+    if (id && !ids.includes(id)) setIds([...ids, id]);
+    setAddId('');
+  };
+
+  const user = getCurrentUser();
+  const selectedAsset = selected ? compared.find(c => c.id === selected.assetId) : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-3">
+          <Link to="/">
+            <img src="/countroll-logo.svg" alt="Countroll" className="h-5" />
+          </Link>
+          <form onSubmit={handleAdd} className="flex gap-1">
+            <input
+              type="text"
+              value={addId}
+              onChange={e => setAddId(e.target.value)}
+              placeholder="Add asset..."
+              disabled={ids.length >= MAX_COMPARED_ASSETS}
+              className="w-32 sm:w-48 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-[#1DB898] disabled:bg-gray-50"
+            />
+            <button
+              type="submit"
+              disabled={!addId.trim() || ids.length >= MAX_COMPARED_ASSETS}
+              className="px-2 py-1 text-sm bg-[#1DB898] text-white rounded hover:bg-[#189e83] disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+          <button
+            onClick={() => logout()}
+            title={user ? `Signed in as ${user.preferredUsername}` : 'Sign out'}
+            className="text-xs text-gray-500 hover:text-[#1DB898] px-2 py-1"
+          >
+            {user?.preferredUsername ? `${user.preferredUsername} · Sign out` : 'Sign out'}
+          </button>
+        </div>
+      </nav>
+
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-3">
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Compare assets</h1>
+          <p className="text-xs text-gray-500 mt-1">
+            {ids.length} of up to {MAX_COMPARED_ASSETS} assets · timelines pan and zoom together
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        {ids.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm">
+            <EmptyState
+              title="Nothing to Compare"
+              message="Add two or more asset IDs above, e.g. a failing roller and its twin on the same machine."
+            />
+          </div>
+        )}
+
+        {/* Service diff against the first asset */}
+        {compared.length > 1 && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <h2 className="text-base font-semibold text-gray-900 px-4 sm:px-6 py-3 border-b border-gray-200">
+              Service comparison
+              <span className="ml-2 text-xs font-normal text-gray-400">amber: more than 25% off {assetLabel(compared[0].asset)}</span>
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Service</th>
+                    <th className="px-4 py-2 text-left">Metric</th>
+                    {compared.map(c => (
+                      <th key={c.id} className="px-4 py-2 text-right normal-case">{assetLabel(c.asset)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffRows.map(row => {
+                    const config = EVENT_TYPE_CONFIG[row.type];
+                    const isCount = row.metric === 'count';
+                    const baseline = row.values[0];
+                    return (
+                      <tr key={`${row.type}-${row.metric}`} className="border-t border-gray-100">
+                        <td className="px-4 py-2 whitespace-nowrap font-medium" style={{ color: config.color }}>
+                          {config.icon} {config.label}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{row.label}</td>
+                        {row.values.map((value, i) => {
+                          const off = i > 0 && deviates(value, baseline);
+                          const delta = i > 0 && value !== null && baseline !== null ? value - baseline : null;
+                          return (
+                            <td
+                              key={compared[i].id}
+                              className={`px-4 py-2 text-right tabular-nums whitespace-nowrap ${off ? 'bg-amber-50 text-amber-900 font-medium' : 'text-gray-700'}`}
+                            >
+                              {formatMetric(value, isCount)}
+                              {delta !== null && Math.round(delta) !== 0 && (
+                                <span className="ml-1 text-xs text-gray-400">
+                                  ({delta > 0 ? '+' : '−'}{formatMetric(Math.abs(delta), isCount)})
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* One card per asset: key facts, then its timeline */}
+        {ids.map(id => {
+          const result = results[id];
+          const item = compared.find(c => c.id === id);
+          const remove = (
+            <button
+              type="button"
+              onClick={() => setIds(ids.filter(other => other !== id))}
+              className="text-xs text-gray-400 hover:text-gray-700 px-2 py-1"
+              aria-label={`Remove asset ${id}`}
+            >
+              Remove ✕
+            </button>
+          );
+
+          if (!item) {
+            const error = result && 'error' in result ? result.error : null;
+            return (
+              <div key={id} className="bg-white rounded-lg shadow-sm px-4 sm:px-6 py-3 flex items-center justify-between">
+                <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-400'}`}>
+                  {!error
+                    ? `Loading asset ${id}…`
+                    : error instanceof NotFoundError
+                      ? `Asset ${id} not found.`
+                      : `Asset ${id} could not be loaded.`}
+                </p>
+                {remove}
+              </div>
+            );
+          }
+
+          const { asset } = item;
+          const last = lastService(item.stats);
+          const lives = getCoverLifecycles(item.events);
+          const currentCover = lives[lives.length - 1];
+          const facts = [
+            { label: 'Diameter', value: asset.nominalCoverDiameter ? `${asset.nominalCoverDiameter} mm` : null },
+            { label: 'Cover length', value: asset.nominalCoverLength ? `${asset.nominalCoverLength} mm` : null },
+            { label: 'Total length', value: asset.length ? `${asset.length} mm` : null },
+            { label: 'Core', value: asset.diameterCore ? `${asset.diameterCore} mm` : null },
+            { label: 'Cover', value: currentCover ? coverLabel(currentCover.recover) : null },
+          ].filter(f => f.value);
+
+          return (
+            <div key={id} className="bg-white rounded-lg shadow-sm">
+              <div className="px-4 sm:px-6 py-3 border-b border-gray-200">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h2 className="text-base font-semibold text-gray-900 truncate">
+                      <Link to={`/asset/${asset.id}`} className="hover:text-[#1DB898]">{assetLabel(asset)}</Link>
+                      <span className="text-sm font-normal text-gray-400 ml-2">({asset.id})</span>
+                    </h2>
+                    {asset.currentPosition && (
+                      <p className="text-xs text-gray-500 truncate">{asset.currentPosition.name}</p>
+                    )}
+                  </div>
+                  {remove}
+                </div>
+                <dl className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                  {facts.map(f => (
+                    <div key={f.label}>
+                      <dt className="inline text-gray-500">{f.label}: </dt>
+                      <dd className="inline font-medium text-gray-900">{f.value}</dd>
+                    </div>
+                  ))}
+                  <div>
+                    <dt className="inline text-gray-500">Last service: </dt>
+                    <dd className="inline font-medium text-gray-900">
+                      {last ? (
+                        <>
+                          <span style={{ color: EVENT_TYPE_CONFIG[last.type].color }}>
+                            {EVENT_TYPE_CONFIG[last.type].icon} {EVENT_TYPE_CONFIG[last.type].label}
+                          </span>{' '}
+                          {formatDay(last.lastService!)}
+                          <span className="font-normal text-gray-400"> · {formatDuration(last.daysSinceLast!)} ago</span>
+                        </>
+                      ) : '—'}
+                    </dd>
+                  </div>
+                </dl>
+              </div>
+              <div className="p-2 sm:p-4">
+                {item.events.length === 0 ? (
+                  <EmptyState title="No Events" message="This asset has no recorded events yet." />
+                ) : (
+                  <Timeline
+                    events={item.events}
+                    pictures={item.pictures}
+                    assetId={asset.id}
+                    onEventClick={item.onEventClick}
+                    extent={extent}
+                    initialWindow={initialWindow}
+                    viewWindow={viewWindow}
+                    onViewWindowChange={setViewWindow}
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </main>
+
+      {selected && selectedAsset && (
+        <EventSidebar
+          event={selected.event}
+          pictures={selectedAsset.pictures}
+          assetId={selectedAsset.id}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
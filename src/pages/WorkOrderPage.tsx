@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { fetchAsset, getIndexedWorkOrderAssets, getIndexedWorkOrderAssetCount } from '../api/countroll';
+import { logout, getCurrentUser } from '../api/auth-code';
+import { typeConfig } from '../lib/event-types';
+import { EmptyState } from '../components/EmptyState';
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function WorkOrderPage() {
+  const { reference = '' } = useParams<{ reference: string }>();
+  // Bumped after a refresh to re-render with the updated index
+  const [, setVersion] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  // The index is a small localStorage read; no need to memoize
+  const assets = getIndexedWorkOrderAssets(reference);
+  const indexedCount = getIndexedWorkOrderAssetCount();
+
+  // Re-fetch every listed asset; fetchAsset re-indexes it as a side effect
+  const refresh = async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+    const results = await Promise.allSettled(assets.map(a => fetchAsset(a.assetId)));
+    const failed = results.filter(r => r.status === 'rejected').length;
+    if (failed > 0) setRefreshError(`${failed} of ${assets.length} assets could not be refreshed.`);
+    setRefreshing(false);
+    setVersion(v => v + 1);
+  };
+
+  const user = getCurrentUser();
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between">
+          <Link to="/">
+            <img src="/countroll-logo.svg" alt="Countroll" className="h-5" />
+          </Link>
+          <div className="flex items-center gap-3">
+            {assets.length > 0 && (
+              <button
+                type="button"
+                onClick={() => void refresh()}
+                disabled={refreshing}
+                className="px-3 py-1 text-sm bg-[#1DB898] text-white rounded hover:bg-[#189e83] disabled:opacity-50"
+              >
+                {refreshing ? 'Refreshing…' : 'Refresh'}
+              </button>
+            )}
+            <button
+              onClick={() => logout()}
+              title={user ? `Signed in as ${user.preferredUsername}` : 'Sign out'}
+              className="text-xs text-gray-500 hover:text-[#1DB898] px-2 py-1"
+            >
+              {user?.preferredUsername ? `${user.preferredUsername} · Sign out` : 'Sign out'}
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-3">
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Work order {reference}</h1>
+          <p className="text-xs text-gray-500 mt-1">
+            {assets.length} linked asset{assets.length === 1 ? '' : 's'} · based on {indexedCount} asset{indexedCount === 1 ? '' : 's'} opened in this browser
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        {refreshError && (
+          <div className="bg-white rounded-lg border border-red-200 p-4 text-sm text-red-600">{refreshError}</div>
+        )}
+
+        {assets.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm">
+            <EmptyState
+              title="No Known Assets"
+              message="None of the assets opened in this browser reference this work order. Open a roller from the work order once and it will be listed here."
+            />
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 text-left">Asset</th>
+                  <th className="px-4 py-2 text-left">Events</th>
+                  <th className="px-4 py-2 text-right">Last loaded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map(asset => (
+                  <tr key={asset.assetId} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-2">
+                      <Link
+                        to={`/asset/${asset.assetId}`}
+                        className="text-[#1DB898] hover:text-[#189e83] font-medium"
+                      >
+                        {asset.label}
+                      </Link>
+                      <span className="text-xs text-gray-400 ml-2">({asset.assetId})</span>
+                      {asset.description && (
+                        <p className="text-xs text-gray-500 truncate max-w-xs">{asset.description}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <ul className="space-y-1">
+                        {asset.events.map(e => {
+                          const config = typeConfig(e.type);
+                          return (
+                            <li key={e.eventId} className="flex items-center gap-2">
+                              <span style={{ color: config.color }}>{config.icon} {config.label}</span>
+                              <span className="text-gray-500">{formatDay(e.creationDateTime)}</span>
+                              {e.diameter && <span className="text-gray-500">· {e.diameter} mm</span>}
+                              {e.title && <span className="text-gray-400 truncate">· {e.title}</span>}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-500 whitespace-nowrap">
+                      {asset.indexedAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
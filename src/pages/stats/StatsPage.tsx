@@ -1,10 +1,10 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import {
   getHeadline, getTrend, getTopAssets, getUsers,
-  StatsForbiddenError,
   type Headline, type TrendDay, type TopAsset, type UserRow,
 } from '../../api/stats';
+import { StatsForbiddenError } from '../../api/errors';
 import { logout, getCurrentUser } from '../../api/auth-code';
 import { LoadingSpinner } from '../../components/LoadingSpinner';
 import { HeadlineTiles } from './HeadlineTiles';
@@ -30,8 +30,15 @@ export function StatsPage() {
   const [loading, setLoading] = useState(true);
   const [forbidden, setForbidden] = useState(false);
   const [loadedAt, setLoadedAt] = useState<Date | null>(null);
+  // Controller of the load in flight; a refresh or leaving the page cancels it
+  const loadController = useRef<AbortController | null>(null);
 
   const load = useCallback(async () => {
+    loadController.current?.abort();
+    const controller = new AbortController();
+    loadController.current = controller;
+    const { signal } = controller;
+
     setLoading(true);
     // Run all four in parallel; each populates its own section state. A
     // failure in one does not blank the others — that is the per-section
@@ -39,23 +46,25 @@ export function StatsPage() {
     const settle = async <T,>(
       p: Promise<T>,
       set: (s: SectionState<T>) => void,
-    ): Promise<'forbidden' | 'ok' | 'error'> => {
+    ): Promise<'forbidden' | 'ok' | 'error' | 'aborted'> => {
       try {
         const data = await p;
         set({ data, error: null });
         return 'ok';
       } catch (err) {
+        if (signal.aborted) return 'aborted';
         if (err instanceof StatsForbiddenError) return 'forbidden';
         set({ data: null, error: err instanceof Error ? err.message : String(err) });
         return 'error';
       }
     };
     const results = await Promise.all([
-      settle(getHeadline(),  setHeadline),
-      settle(getTrend(),     setTrend),
-      settle(getTopAssets(), setTopAssets),
-      settle(getUsers(),     setUsers),
+      settle(getHeadline(signal),  setHeadline),
+      settle(getTrend(signal),     setTrend),
+      settle(getTopAssets(signal), setTopAssets),
+      settle(getUsers(signal),     setUsers),
     ]);
+    if (signal.aborted) return;
     if (results.includes('forbidden')) {
       setForbidden(true);
     } else {
@@ -64,7 +73,10 @@ export function StatsPage() {
     setLoading(false);
   }, []);
 
-  useEffect(() => { void load(); }, [load]);
+  useEffect(() => {
+    void load();
+    return () => loadController.current?.abort();
+  }, [load]);
 
   if (forbidden) return <NotAuthorized />;
   if (loading && !loadedAt) return <LoadingSpinner message="Loading stats..." />;
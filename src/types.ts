@@ -20,7 +20,8 @@ export interface AssetEvent {
   state: EventState;
   creationType: string;
   creationDateTime: string;
-  lastUpdatedDateTime: string;
+  /** Not checked by the validator; may be missing or malformed */
+  lastUpdatedDateTime?: string;
   createdByUserId: string;
   lastUpdatedByUserId: string;
   createdByThirdPartyId: string;
@@ -109,6 +110,8 @@ export interface Picture {
   createdOn: string;
   updatedOn: string;
   contentType: string;
+  // Set on pictures that are OTHER-event documents, to re-resolve the thumbnail
+  documentName?: string;
 }
 
 export interface PictureEvent {
@@ -7,6 +7,10 @@ interface ImportMetaEnv {
   readonly VITE_OAUTH_USERNAME: string;
   readonly VITE_OAUTH_PASSWORD: string;
   readonly VITE_THIRD_PARTY_ID: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_ATTRIBUTION?: string;
+  readonly VITE_AUTH_BYPASS?: string;
+  readonly VITE_MIN_COVER_DIAMETERS?: string;
 }
 
 interface ImportMeta {
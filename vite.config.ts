@@ -1,20 +1,27 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  server: {
-    // /api/* -> Countroll REST API (no CORS, must be proxied).
-    // Keycloak is reached browser-direct (CORS enabled via Web Origins),
-    // so no /auth proxy is needed.
-    proxy: {
-      '/api': {
-        target: 'https://api.countroll.com',
-        changeOrigin: true,
-        secure: true,
+export default defineConfig(({ mode }) => {
+  // API_PROXY_TARGET (from the shell or .env) points the proxy elsewhere,
+  // e.g. http://localhost:8090 for the mock API in scripts/mock-api.js
+  const env = loadEnv(mode, process.cwd(), '')
+  const apiTarget = env.API_PROXY_TARGET || 'https://api.countroll.com'
+
+  return {
+    plugins: [react(), tailwindcss()],
+    server: {
+      // /api/* -> Countroll REST API (no CORS, must be proxied).
+      // Keycloak is reached browser-direct (CORS enabled via Web Origins),
+      // so no /auth proxy is needed.
+      proxy: {
+        '/api': {
+          target: apiTarget,
+          changeOrigin: true,
+          secure: apiTarget.startsWith('https:'),
+        },
       },
     },
-  },
+  }
 })